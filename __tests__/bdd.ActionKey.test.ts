@@ -0,0 +1,117 @@
+import { expect } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { KissAction, Store, UserException } from '../src';
+import { delayMillis } from '../src/utils';
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Action key');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1).count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('Checking if an action with a specific key is waiting.')
+  .given('An ASYNC action that defines an action key.')
+  .when('Two actions with different keys are dispatched.')
+  .then('We can check if the action is waiting for each key.')
+  .and('We can still check if the action type is waiting, for any key.')
+  .run(async (_) => {
+
+    const store = new Store<State>({
+      initialState: new State(1),
+      logger: logger
+    });
+
+    let promise17 = store.dispatchAndWait(new LikePost(17, false, 10));
+    let promise18 = store.dispatchAndWait(new LikePost(18, false, 50));
+
+    expect(store.isWaiting(LikePost, 17)).toBe(true);
+    expect(store.isWaiting(LikePost, 18)).toBe(true);
+    expect(store.isWaiting(LikePost, 19)).toBe(false);
+    expect(store.isWaiting(LikePost)).toBe(true);
+
+    await promise17;
+    expect(store.isWaiting(LikePost, 17)).toBe(false);
+    expect(store.isWaiting(LikePost, 18)).toBe(true);
+    expect(store.isWaiting(LikePost)).toBe(true);
+
+    await promise18;
+    expect(store.isWaiting(LikePost, 18)).toBe(false);
+    expect(store.isWaiting(LikePost)).toBe(false);
+  })
+
+Bdd(feature)
+  .scenario('Checking if an action with a specific key has failed.')
+  .given('An ASYNC action that defines an action key.')
+  .when('Actions with different keys fail.')
+  .then('We can check if the action failed, and get its exception, for each key.')
+  .and('Dispatching the action again only clears the failure for its own key.')
+  .and('We can clear the failure for a specific key, or for all keys.')
+  .run(async (_) => {
+
+    const store = new Store<State>({
+      initialState: new State(1),
+      logger: logger
+    });
+
+    expect(store.isFailed(LikePost, 17)).toBe(false);
+
+    await store.dispatchAndWait(new LikePost(17, true));
+    await store.dispatchAndWait(new LikePost(18, true));
+
+    expect(store.isFailed(LikePost, 17)).toBe(true);
+    expect(store.isFailed(LikePost, 18)).toBe(true);
+    expect(store.isFailed(LikePost, 19)).toBe(false);
+    expect(store.isFailed(LikePost)).toBe(true);
+    expect(store.exceptionFor(LikePost, 17)).toEqual(new UserException('Failed for 17.'));
+    expect(store.exceptionFor(LikePost, 18)).toEqual(new UserException('Failed for 18.'));
+
+    // Without a key, we get the most recent failure.
+    expect(store.exceptionFor(LikePost)).toEqual(new UserException('Failed for 18.'));
+
+    // Dispatching post 17 again only clears the failure of post 17.
+    await store.dispatchAndWait(new LikePost(17, false));
+    expect(store.isFailed(LikePost, 17)).toBe(false);
+    expect(store.isFailed(LikePost, 18)).toBe(true);
+    expect(store.isFailed(LikePost)).toBe(true);
+
+    // Clearing the exception for a specific key.
+    await store.dispatchAndWait(new LikePost(17, true));
+    store.clearExceptionFor(LikePost, 18);
+    expect(store.isFailed(LikePost, 17)).toBe(true);
+    expect(store.isFailed(LikePost, 18)).toBe(false);
+
+    // Clearing the exception for all keys.
+    store.clearExceptionFor(LikePost);
+    expect(store.isFailed(LikePost, 17)).toBe(false);
+    expect(store.isFailed(LikePost)).toBe(false);
+  })
+
+class State {
+  constructor(readonly count: number) {
+  }
+}
+
+class LikePost extends KissAction<State> {
+
+  constructor(
+    readonly postId: number,
+    readonly ifFails: boolean,
+    readonly delay: number = 1,
+  ) {
+    super();
+  }
+
+  actionKey() {
+    return this.postId;
+  }
+
+  async reduce() {
+    await delayMillis(this.delay);
+    if (this.ifFails) throw new UserException(`Failed for ${this.postId}.`);
+    return null;
+  }
+}
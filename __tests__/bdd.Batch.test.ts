@@ -0,0 +1,181 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { KissAction, Persistor, Store } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Batch');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1).count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('State changes inside a batch are notified only once.')
+  .given('A store with a state-observer and a persistor.')
+  .when('Three actions are dispatched inside a batch.')
+  .then('The state changes are applied right away.')
+  .and('The subscribers and the state-observer are called only once, when the batch ends.')
+  .and('The final state is persisted only once.')
+  .run(async (_) => {
+
+    let observed: string[] = [];
+    let persistor = new MyPersistor();
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger, persistor: persistor,
+      stateObserver: (action, prevState, newState) => {
+        observed.push(`${action.constructor.name} ${prevState.count} → ${newState.count}`);
+      },
+    });
+
+    // Wait for the initial state to be persisted.
+    await delayMillis(10);
+    persistor.persisted = [];
+
+    let notified: number[] = [];
+    store.subscribe(() => notified.push(store.state.count));
+
+    let result = store.batch(() => {
+      store.dispatch(new IncrementAction());
+      store.dispatch(new IncrementAction());
+      store.dispatch(new SetAction(10));
+      expect(store.state.count).toBe(10);
+      expect(notified).toEqual([]);
+      expect(observed).toEqual([]);
+      expect(persistor.persisted).toEqual([]);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(store.state.count).toBe(10);
+    expect(notified).toEqual([10]);
+    expect(observed).toEqual(['SetAction 1 → 10']);
+    expect(persistor.persisted).toEqual([10]);
+
+    // After the batch, notifications happen as usual.
+    store.dispatch(new IncrementAction());
+    expect(observed).toEqual(['SetAction 1 → 10', 'IncrementAction 10 → 11']);
+    await delayMillis(10);
+    expect(persistor.persisted).toEqual([10, 11]);
+  });
+
+Bdd(feature)
+  .scenario('Batches can be nested, and can be async.')
+  .given('An async batch, with a nested batch inside it.')
+  .when('Sync and async actions are dispatched inside them.')
+  .then('The subscribers and the state-observer are called only once, when the outer batch ends.')
+  .run(async (_) => {
+
+    let observed: string[] = [];
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+      stateObserver: (action, prevState, newState) => {
+        observed.push(`${action.constructor.name} ${prevState.count} → ${newState.count}`);
+      },
+    });
+
+    let notified = 0;
+    store.subscribe(() => notified++);
+
+    await store.batch(async () => {
+      store.batch(() => {
+        store.dispatch(new IncrementAction());
+        store.dispatch(new IncrementAction());
+      });
+      expect(observed).toEqual([]);
+      await store.dispatchAndWait(new IncrementAsyncAction());
+      expect(observed).toEqual([]);
+      expect(notified).toBe(0);
+    });
+
+    expect(store.state.count).toBe(4);
+    expect(notified).toBe(1);
+    expect(observed).toEqual(['IncrementAsyncAction 1 → 4']);
+  });
+
+Bdd(feature)
+  .scenario('A batch that does not change the state is not notified.')
+  .given('A batch that throws an error, without changing the state.')
+  .when('The batch runs.')
+  .then('The error is thrown, and the state-observer is not called.')
+  .and('Later batches still work.')
+  .run(async (_) => {
+
+    let observed: string[] = [];
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+      stateObserver: (action, prevState, newState) => {
+        observed.push(`${action.constructor.name} ${prevState.count} → ${newState.count}`);
+      },
+    });
+
+    expect(() => store.batch(() => {
+      throw new Error('Failed');
+    })).toThrow('Failed');
+    expect(observed).toEqual([]);
+
+    store.batch(() => store.dispatch(new IncrementAction()));
+    expect(observed).toEqual(['IncrementAction 1 → 2']);
+  });
+
+class State {
+  constructor(readonly count: number) {
+  }
+
+  toString() {
+    return `State(${this.count})`;
+  }
+}
+
+class IncrementAction extends KissAction<State> {
+  reduce() {
+    return new State(this.state.count + 1);
+  }
+}
+
+class IncrementAsyncAction extends KissAction<State> {
+  async reduce() {
+    await delayMillis(10);
+    return (state: State) => new State(state.count + 1);
+  }
+}
+
+class SetAction extends KissAction<State> {
+
+  constructor(readonly value: number) {
+    super();
+  }
+
+  reduce() {
+    return new State(this.value);
+  }
+}
+
+class MyPersistor extends Persistor<State> {
+
+  persisted: number[] = [];
+
+  async readState(): Promise<State | null> {
+    return null;
+  }
+
+  async saveInitialState(state: State) {
+    this.persisted.push(state.count);
+  }
+
+  async deleteState() {
+  }
+
+  async persistDifference(lastPersistedState: State | null, newState: State) {
+    this.persisted.push(newState.count);
+  }
+
+  get throttle(): number | null {
+    return null;
+  }
+}
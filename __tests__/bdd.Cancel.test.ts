@@ -0,0 +1,159 @@
+import { expect } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { KissAction, Store } from '../src';
+import { delayMillis } from '../src/utils';
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Cancel');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State('').text).toBe('');
+});
+
+Bdd(feature)
+  .scenario('A cancelled action does not change the state.')
+  .given('An ASYNC action that takes some time to finish.')
+  .when('The action is dispatched, and then cancelled before it finishes.')
+  .then('Its signal is aborted.')
+  .and('It is not waiting anymore.')
+  .and('Its result is discarded, and it finishes as cancelled.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State('initial'), logger: logger,
+    });
+
+    let action = new LoadSearchResults('abc', 50);
+    let promise = store.dispatchAndWait(action);
+    expect(store.isWaiting(LoadSearchResults)).toBe(true);
+    expect(action.signal.aborted).toBe(false);
+
+    expect(store.cancel(action)).toBe(true);
+    expect(action.signal.aborted).toBe(true);
+    expect(action.status.isCancelled).toBe(true);
+    expect(store.isWaiting(LoadSearchResults)).toBe(false);
+
+    let status = await promise;
+    expect(store.state.text).toBe('initial');
+    expect(status.isCancelled).toBe(true);
+    expect(status.isCompleted).toBe(true);
+    expect(status.isCompletedFailed).toBe(false);
+
+    // Cancelling an action that is not running does nothing.
+    expect(store.cancel(action)).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('A stale response does not overwrite a newer one.')
+  .given('An ASYNC action that takes some time to finish.')
+  .when('The action is dispatched, and then all actions of the same type are cancelled.')
+  .and('A new action of the same type is dispatched, and finishes before the first one.')
+  .then('The state is changed only by the new action.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State('initial'), logger: logger,
+    });
+
+    let promise1 = store.dispatchAndWait(new LoadSearchResults('a', 50));
+    let promise2 = store.dispatchAndWait(new LoadSearchResults('b', 50));
+
+    expect(store.cancelAll(LoadSearchResults)).toBe(2);
+
+    await store.dispatchAndWait(new LoadSearchResults('abc', 10));
+    expect(store.state.text).toBe('abc');
+
+    let [status1, status2] = await Promise.all([promise1, promise2]);
+    expect(status1.isCancelled).toBe(true);
+    expect(status2.isCancelled).toBe(true);
+    expect(store.state.text).toBe('abc');
+  });
+
+Bdd(feature)
+  .scenario('Errors thrown after the action is cancelled are ignored.')
+  .given('An ASYNC action that throws an error when its signal is aborted.')
+  .when('The action is dispatched, and then cancelled.')
+  .then('The error is ignored, and the action is not considered failed.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State('initial'), logger: logger,
+    });
+
+    expect(store.isFailed(FetchAction)).toBe(false);
+
+    let action = new FetchAction();
+    let promise = store.dispatchAndWait(action);
+    store.cancel(action);
+
+    let status = await promise;
+    expect(status.isCancelled).toBe(true);
+    expect(status.originalError).toBe(null);
+    expect(store.isFailed(FetchAction)).toBe(false);
+    expect(store.state.text).toBe('initial');
+  });
+
+Bdd(feature)
+  .scenario('Cancelling only the actions with a specific key.')
+  .given('An ASYNC action that defines an action key.')
+  .when('Actions with different keys are dispatched, and then the ones with one of the keys are cancelled.')
+  .then('Only the actions with that key are cancelled.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    let promiseA = store.dispatchAndWait(new LoadSearchResults('a', 10));
+    let promiseB = store.dispatchAndWait(new LoadSearchResults('b', 10));
+
+    expect(store.cancelAll(LoadSearchResults, 'a')).toBe(1);
+    expect(store.isWaiting(LoadSearchResults, 'a')).toBe(false);
+    expect(store.isWaiting(LoadSearchResults, 'b')).toBe(true);
+
+    expect((await promiseA).isCancelled).toBe(true);
+    expect((await promiseB).isCancelled).toBe(false);
+    expect(store.state.text).toBe('b');
+  });
+
+class State {
+  constructor(readonly text: string) {
+  }
+
+  toString() {
+    return `State(${this.text})`;
+  }
+}
+
+class LoadSearchResults extends KissAction<State> {
+
+  constructor(readonly text: string, readonly delay: number) {
+    super();
+  }
+
+  actionKey() {
+    return this.text;
+  }
+
+  async reduce() {
+    await delayMillis(this.delay);
+    return (state: State) => new State(this.text);
+  }
+}
+
+// Simulates `fetch`, which throws an `AbortError` when its signal is aborted.
+class FetchAction extends KissAction<State> {
+
+  async reduce() {
+    await new Promise((resolve, reject) => {
+      let timer = setTimeout(resolve, 50);
+      this.signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('AbortError'));
+      });
+    });
+    return (state: State) => new State('fetched');
+  }
+}
@@ -0,0 +1,183 @@
+import { expect } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { Concurrency, KissAction, Store } from '../src';
+import { delayMillis } from '../src/utils';
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Concurrency');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State('').text).toBe('');
+});
+
+Bdd(feature)
+  .scenario('Actions with concurrency queue run one after the other.')
+  .given('An ASYNC action with concurrency queue.')
+  .when('The action is dispatched 3 times in a row.')
+  .then('Each one only starts after the previous one finished.')
+  .and('They change the state in the order they were dispatched.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    let promise1 = store.dispatchAndWait(new AppendAction('queue', 'a', 30));
+    let promise2 = store.dispatchAndWait(new AppendAction('queue', 'b', 10));
+    let promise3 = store.dispatchAndWait(new AppendAction('queue', 'c', 1));
+
+    expect(AppendAction.running).toBe(1);
+
+    let statuses = await Promise.all([promise1, promise2, promise3]);
+    expect(store.state.text).toBe('abc');
+    expect(AppendAction.maxRunning).toBe(1);
+    expect(statuses.every(status => status.isCompletedOk)).toBe(true);
+  });
+
+Bdd(feature)
+  .scenario('Actions with concurrency latest cancel the older ones.')
+  .given('An ASYNC action with concurrency latest.')
+  .when('The action is dispatched 3 times in a row.')
+  .then('The older ones are cancelled.')
+  .and('Only the latest one changes the state, even if it finishes first.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    let promise1 = store.dispatchAndWait(new AppendAction('latest', 'a', 30));
+    let promise2 = store.dispatchAndWait(new AppendAction('latest', 'b', 20));
+    let promise3 = store.dispatchAndWait(new AppendAction('latest', 'c', 1));
+
+    let [status1, status2, status3] = await Promise.all([promise1, promise2, promise3]);
+    expect(store.state.text).toBe('c');
+    expect(status1.isCancelled).toBe(true);
+    expect(status2.isCancelled).toBe(true);
+    expect(status3.isCancelled).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('Actions with concurrency drop are aborted while another one is running.')
+  .given('An ASYNC action with concurrency drop.')
+  .when('The action is dispatched 3 times in a row.')
+  .then('Only the first one runs.')
+  .and('The other ones are aborted.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    let promise1 = store.dispatchAndWait(new AppendAction('drop', 'a', 10));
+    let promise2 = store.dispatchAndWait(new AppendAction('drop', 'b', 1));
+    store.dispatch(new AppendAction('drop', 'c', 1));
+
+    let [status1, status2] = await Promise.all([promise1, promise2]);
+    expect(store.state.text).toBe('a');
+    expect(status1.isAborted).toBe(false);
+    expect(status2.isAborted).toBe(true);
+
+    // After it finishes, it can run again.
+    await store.dispatchAndWait(new AppendAction('drop', 'd', 1));
+    expect(store.state.text).toBe('ad');
+  });
+
+Bdd(feature)
+  .scenario('Concurrency uses the non-reentrant key params.')
+  .given('An ASYNC action with concurrency queue, that defines its non-reentrant key params.')
+  .when('Actions with different key params are dispatched.')
+  .then('Actions with different key params run at the same time.')
+  .and('Actions with the same key params are queued.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    let promise1 = store.dispatchAndWait(new AppendWithKeyAction('A', 'a', 30));
+    let promise2 = store.dispatchAndWait(new AppendWithKeyAction('B', 'b', 10));
+    let promise3 = store.dispatchAndWait(new AppendWithKeyAction('A', 'c', 1));
+
+    await Promise.all([promise1, promise2, promise3]);
+    expect(store.state.text).toBe('bac');
+  });
+
+Bdd(feature)
+  .scenario('A queued action can be cancelled.')
+  .given('An ASYNC action with concurrency queue.')
+  .when('The action is dispatched twice, and the second one is cancelled while in the queue.')
+  .then('The second one never runs.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    let action2 = new AppendAction('queue', 'b', 1);
+    let promise1 = store.dispatchAndWait(new AppendAction('queue', 'a', 10));
+    let promise2 = store.dispatchAndWait(action2);
+
+    expect(store.cancel(action2)).toBe(true);
+
+    let [status1, status2] = await Promise.all([promise1, promise2]);
+    expect(store.state.text).toBe('a');
+    expect(status1.isCancelled).toBe(false);
+    expect(status2.isCancelled).toBe(true);
+    expect(status2.isDispatched).toBe(false);
+  });
+
+class State {
+  constructor(readonly text: string) {
+  }
+
+  toString() {
+    return `State(${this.text})`;
+  }
+}
+
+class AppendAction extends KissAction<State> {
+
+  static running = 0;
+  static maxRunning = 0;
+
+  constructor(
+    readonly concurrency: Concurrency,
+    readonly text: string,
+    readonly delay: number,
+  ) {
+    super();
+  }
+
+  async reduce() {
+    AppendAction.running++;
+    AppendAction.maxRunning = Math.max(AppendAction.maxRunning, AppendAction.running);
+    await delayMillis(this.delay);
+    AppendAction.running--;
+    return (state: State) => new State(state.text + this.text);
+  }
+}
+
+class AppendWithKeyAction extends KissAction<State> {
+
+  concurrency = 'queue' as const;
+
+  constructor(
+    readonly key: string,
+    readonly text: string,
+    readonly delay: number,
+  ) {
+    super();
+  }
+
+  nonReentrantKeyParams() {
+    return [this.key];
+  }
+
+  async reduce() {
+    await delayMillis(this.delay);
+    return (state: State) => new State(state.text + this.text);
+  }
+}
@@ -0,0 +1,154 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { ConnectivityMonitorBrowser, ConnectivityMonitorFake, KissAction, Store, UserException } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Connectivity monitor');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1).count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('Actions that check the internet use the connectivity monitor.')
+  .given('A store with a connectivity monitor that says there is no internet.')
+  .when('An action with checkInternet is dispatched.')
+  .then('It fails with a UserException.')
+  .and('When the monitor says there is internet, the action runs.')
+  .run(async (_) => {
+
+    let monitor = new ConnectivityMonitorFake(false);
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger, connectivityMonitor: monitor,
+    });
+
+    let status = await store.dispatchAndWait(new IncrementAction());
+    expect(status.isCompletedFailed).toBe(true);
+    expect(status.wrappedError).toBeInstanceOf(UserException);
+    expect(store.state.count).toBe(1);
+
+    monitor.setConnected(true);
+    status = await store.dispatchAndWait(new IncrementAction());
+    expect(status.isCompletedOk).toBe(true);
+    expect(store.state.count).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('The store keeps the connection status of the connectivity monitor.')
+  .given('A store with a connectivity monitor.')
+  .when('The connection status changes.')
+  .then('The store isOnline changes too.')
+  .run(async (_) => {
+
+    let monitor = new ConnectivityMonitorFake(false);
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger, connectivityMonitor: monitor,
+    });
+
+    // Reading isOnline starts listening to the monitor. Its status is read asynchronously.
+    expect(store.isOnline).toBe(true);
+    await delayMillis(1);
+    expect(store.isOnline).toBe(false);
+    expect(store.connectivityMonitor).toBe(monitor);
+
+    monitor.setConnected(true);
+    expect(store.isOnline).toBe(true);
+
+    monitor.setConnected(false);
+    expect(store.isOnline).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('The default connectivity monitor says it is connected outside the browser.')
+  .given('A store created without a connectivity monitor.')
+  .when('Not running in a web environment.')
+  .then('The store uses the browser connectivity monitor, which says it is connected.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    expect(store.connectivityMonitor).toBeInstanceOf(ConnectivityMonitorBrowser);
+    expect(await store.connectivityMonitor.isConnected()).toBe(true);
+
+    let status = await store.dispatchAndWait(new IncrementAction());
+    expect(status.isCompletedOk).toBe(true);
+    expect(store.isOnline).toBe(true);
+  });
+
+Bdd(feature)
+  .scenario('A store that is shut down stops listening to the connectivity monitor.')
+  .given('A store with a connectivity monitor.')
+  .when('The store is shut down, and the connection status changes.')
+  .then('The store isOnline does not change.')
+  .and('When the store restarts, it reads the connection status again.')
+  .run(async (_) => {
+
+    let monitor = new ConnectivityMonitorFake(true);
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger, connectivityMonitor: monitor,
+    });
+
+    store.setShutDown(true);
+    monitor.setConnected(false);
+    expect(store.isOnline).toBe(true);
+
+    store.setShutDown(false);
+    await delayMillis(1);
+    expect(store.isOnline).toBe(false);
+
+    monitor.setConnected(true);
+    expect(store.isOnline).toBe(true);
+  });
+
+Bdd(feature)
+  .scenario('The store only listens to the connectivity monitor when needed.')
+  .given('A store with a connectivity monitor.')
+  .when('Neither isOnline nor the offline queue are used.')
+  .then('The store does not subscribe to the monitor.')
+  .and('It subscribes once isOnline is read.')
+  .run(async (_) => {
+
+    let monitor = new CountingConnectivityMonitor(true);
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger, connectivityMonitor: monitor,
+    });
+
+    await store.dispatchAndWait(new IncrementAction());
+    expect(monitor.subscriptions).toBe(0);
+
+    expect(store.isOnline).toBe(true);
+    expect(store.isOnline).toBe(true);
+    expect(monitor.subscriptions).toBe(1);
+  });
+
+class State {
+  constructor(readonly count: number) {
+  }
+
+  toString() {
+    return `State(${this.count})`;
+  }
+}
+
+class IncrementAction extends KissAction<State> {
+
+  checkInternet = {dialog: false};
+
+  reduce() {
+    return new State(this.state.count + 1);
+  }
+}
+
+class CountingConnectivityMonitor extends ConnectivityMonitorFake {
+  subscriptions = 0;
+
+  subscribe(listener: (isConnected: boolean) => void): () => void {
+    this.subscriptions++;
+    return super.subscribe(listener);
+  }
+}
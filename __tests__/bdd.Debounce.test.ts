@@ -0,0 +1,177 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { ActionStatus, KissAction, Store, StoreException } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Debounce');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State('').text).toBe('');
+});
+
+Bdd(feature)
+  .scenario('Only the last of rapidly dispatched debounced actions runs its reducer.')
+  .given('An action with a debounce of 50 millis.')
+  .when('The action is dispatched 3 times in a row, with less than 50 millis between them.')
+  .then('Only the last one changes the state.')
+  .and('The other ones finish as aborted, not as failed.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    let action1 = new SearchAction('a');
+    let action2 = new SearchAction('ab');
+    let action3 = new SearchAction('abc');
+
+    let promise1 = store.dispatchAndWait(action1);
+    await delayMillis(10);
+    let promise2 = store.dispatchAndWait(action2);
+    await delayMillis(10);
+    let promise3 = store.dispatchAndWait(action3);
+
+    expect(store.isWaiting(SearchAction)).toBe(true);
+
+    let [status1, status2, status3]: ActionStatus[] = await Promise.all([promise1, promise2, promise3]);
+
+    expect(store.state.text).toBe('abc');
+    expect(SearchAction.reduceCount).toBe(1);
+
+    expect(status1.isAborted).toBe(true);
+    expect(status1.isCompletedFailed).toBe(false);
+    expect(status2.isAborted).toBe(true);
+    expect(status2.isCompletedFailed).toBe(false);
+    expect(status3.isAborted).toBe(false);
+    expect(status3.isCompletedOk).toBe(true);
+
+    expect(store.isWaiting(SearchAction)).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('Debounced actions that are far apart all run.')
+  .given('An action with a debounce of 50 millis.')
+  .when('The action is dispatched twice, with more than 50 millis between them.')
+  .then('Both change the state.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    let status1 = await store.dispatchAndWait(new SyncSearchAction('a'));
+    expect(store.state.text).toBe('a');
+
+    let status2 = await store.dispatchAndWait(new SyncSearchAction('ab'));
+    expect(store.state.text).toBe('ab');
+
+    expect(status1.isAborted).toBe(false);
+    expect(status2.isAborted).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('Debounce uses the lock key.')
+  .given('An action with a debounce, that overrides the lock key.')
+  .when('Actions with different lock keys are dispatched in a row.')
+  .then('They don\'t supersede each other.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    let statusA = store.dispatchAndWait(new AppendWithKeyAction('x', 'A'));
+    let statusB = store.dispatchAndWait(new AppendWithKeyAction('y', 'B'));
+    let statusC = store.dispatchAndWait(new AppendWithKeyAction('z', 'A'));
+
+    expect((await statusA).isAborted).toBe(true);
+    expect((await statusB).isAborted).toBe(false);
+    expect((await statusC).isAborted).toBe(false);
+
+    expect(store.state.text).toBe('yz');
+  });
+
+Bdd(feature)
+  .scenario('A debounced action can not be dispatched with dispatchSync.')
+  .given('A SYNC action with a debounce of 50 millis.')
+  .when('The action is dispatched with dispatchSync.')
+  .then('It throws a StoreException, since debounced actions are ASYNC.')
+  .and('The reducer does not run, even after the debounce period.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(''), logger: logger,
+    });
+
+    SyncSearchAction.reduceCount = 0;
+    expect(() => store.dispatchSync(new SyncSearchAction('a'))).toThrow(StoreException);
+
+    await delayMillis(70);
+    expect(SyncSearchAction.reduceCount).toBe(0);
+    expect(store.state.text).toBe('');
+
+    await store.dispatchAndWait(new SyncSearchAction('b'));
+    expect(store.state.text).toBe('b');
+  });
+
+class State {
+  constructor(readonly text: string) {
+  }
+
+  toString() {
+    return `State(${this.text})`;
+  }
+}
+
+class SearchAction extends KissAction<State> {
+
+  static reduceCount = 0;
+
+  constructor(readonly text: string) {
+    super();
+  }
+
+  debounce = 50;
+
+  async reduce() {
+    SearchAction.reduceCount++;
+    await delayMillis(1);
+    return (state: State) => new State(this.text);
+  }
+}
+
+class SyncSearchAction extends KissAction<State> {
+
+  static reduceCount = 0;
+
+  constructor(readonly text: string) {
+    super();
+  }
+
+  debounce = 50;
+
+  reduce() {
+    SyncSearchAction.reduceCount++;
+    return new State(this.text);
+  }
+}
+
+class AppendWithKeyAction extends KissAction<State> {
+
+  constructor(readonly text: string, readonly key: string) {
+    super();
+  }
+
+  debounce = 20;
+
+  lockKey() {
+    return this.key;
+  }
+
+  reduce() {
+    return new State(this.state.text + this.text);
+  }
+}
@@ -0,0 +1,189 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { AtomicDispatchException, KissAction, Store, StoreException, UserException } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Dispatch atomically');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1).count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('A group of actions that succeeds keeps all its state changes.')
+  .given('Sync and async actions that change the state.')
+  .when('They are dispatched atomically, and all succeed.')
+  .then('They run in order, and all state changes are kept.')
+  .and('They are not rolled back.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let actions = await store.dispatchAtomically([
+      new MultiplyAsyncAction(3),
+      new AddAction(1),
+    ]);
+
+    expect(store.state.count).toBe(4);
+    expect(actions.every(action => action.status.isCompletedOk)).toBe(true);
+    expect(actions.some(action => action.status.isRolledBack)).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('A group of actions with a failure is rolled back.')
+  .given('Three actions, where the second one fails.')
+  .when('They are dispatched atomically.')
+  .then('The state is restored to what it was before the group started.')
+  .and('The Promise rejects with an AtomicDispatchException that contains the error.')
+  .and('The dispatched actions are rolled back, and the third one is not dispatched.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let action1 = new AddAction(10);
+    let action2 = new MultiplyAsyncAction(2, true);
+    let action3 = new AddAction(100);
+
+    let error: any = null;
+    try {
+      await store.dispatchAtomically([action1, action2, action3]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(store.state.count).toBe(1);
+
+    expect(error).toBeInstanceOf(AtomicDispatchException);
+    expect(error.errors).toEqual([new UserException('Failed')]);
+    expect(error.actions).toEqual([action1, action2, action3]);
+
+    expect(action1.status.isCompletedOk).toBe(true);
+    expect(action1.status.isRolledBack).toBe(true);
+    expect(action2.status.isCompletedFailed).toBe(true);
+    expect(action2.status.isRolledBack).toBe(true);
+    expect(action3.status.isDispatched).toBe(false);
+    expect(action3.status.isRolledBack).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('A group of actions with an aborted action is rolled back.')
+  .given('Two actions, where the second one is aborted because it is still fresh.')
+  .when('They are dispatched atomically.')
+  .then('The state is restored to what it was before the group started.')
+  .and('The Promise rejects with an AtomicDispatchException.')
+  .and('The dispatched action is rolled back.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    // Makes AddFreshAction fresh, so that it is aborted inside the group.
+    store.dispatch(new AddFreshAction(1));
+    expect(store.state.count).toBe(2);
+
+    let action1 = new AddAction(10);
+    let action2 = new AddFreshAction(1);
+
+    let error: any = null;
+    try {
+      await store.dispatchAtomically([action1, action2]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(store.state.count).toBe(2);
+
+    expect(error).toBeInstanceOf(AtomicDispatchException);
+    expect(error.isRolledBack).toBe(true);
+    expect(error.errors[0]).toBeInstanceOf(StoreException);
+
+    expect(action1.status.isRolledBack).toBe(true);
+    expect(action2.status.isAborted).toBe(true);
+    expect(action2.status.isRolledBack).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('A group of actions that cannot be rolled back is not marked as rolled back.')
+  .given('Two actions, where the second one shuts down the store and then fails.')
+  .when('They are dispatched atomically.')
+  .then('The state cannot be restored.')
+  .and('The Promise rejects with an AtomicDispatchException that says it was not rolled back.')
+  .and('The dispatched actions are not marked as rolled back.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let action1 = new AddAction(10);
+    let action2 = new ShutDownAndFailAction();
+
+    let error: any = null;
+    try {
+      await store.dispatchAtomically([action1, action2]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(store.state.count).toBe(11);
+
+    expect(error).toBeInstanceOf(AtomicDispatchException);
+    expect(error.isRolledBack).toBe(false);
+    expect(error.message).toContain('could NOT be rolled back');
+
+    expect(action1.status.isRolledBack).toBe(false);
+    expect(action2.status.isRolledBack).toBe(false);
+  });
+
+class State {
+  constructor(readonly count: number) {
+  }
+
+  toString() {
+    return `State(${this.count})`;
+  }
+}
+
+class AddAction extends KissAction<State> {
+
+  constructor(readonly value: number) {
+    super();
+  }
+
+  reduce() {
+    return new State(this.state.count + this.value);
+  }
+}
+
+class MultiplyAsyncAction extends KissAction<State> {
+
+  constructor(readonly value: number, readonly fail: boolean = false) {
+    super();
+  }
+
+  async reduce() {
+    await delayMillis(10);
+    if (this.fail) throw new UserException('Failed');
+    return (state: State) => new State(state.count * this.value);
+  }
+}
+
+class AddFreshAction extends AddAction {
+  freshFor = 1000;
+}
+
+class ShutDownAndFailAction extends KissAction<State> {
+
+  reduce(): State {
+    this.store.setShutDown(true);
+    throw new UserException('Failed');
+  }
+}
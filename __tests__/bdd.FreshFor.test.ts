@@ -0,0 +1,240 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { KissAction, Store, UserException } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('FreshFor');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1).count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('An action does not run again while it is running or fresh.')
+  .given('An async action with freshFor 100 millis.')
+  .when('The action is dispatched twice in a row.')
+  .then('Only the first one runs.')
+  .and('While fresh, it does not run again.')
+  .and('After the freshness period, it runs again.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new LoadAction());
+    let status2 = await store.dispatchAndWait(new LoadAction());
+    expect(status2.isAborted).toBe(true);
+    expect(status2.isDispatched).toBe(false);
+
+    await store.waitAllActions([]);
+    expect(store.state.count).toBe(2);
+
+    let status3 = await store.dispatchAndWait(new LoadAction());
+    expect(status3.isAborted).toBe(true);
+    expect(store.state.count).toBe(2);
+
+    await delayMillis(110);
+    await store.dispatchAndWait(new LoadAction());
+    expect(store.state.count).toBe(3);
+  });
+
+Bdd(feature)
+  .scenario('Freshness is kept separately for each action key.')
+  .given('An action with freshFor, that overrides actionKey.')
+  .when('Actions with different keys are dispatched in a row.')
+  .then('They all run.')
+  .and('Actions with the same key do not.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    await store.dispatchAndWait(new LoadWithKeyAction('A'));
+    await store.dispatchAndWait(new LoadWithKeyAction('B'));
+    await store.dispatchAndWait(new LoadWithKeyAction('A'));
+    expect(store.state.count).toBe(3);
+  });
+
+Bdd(feature)
+  .scenario('An action that fails is not fresh.')
+  .given('An action with freshFor.')
+  .when('The action fails.')
+  .then('It can be dispatched again right away.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let status1 = await store.dispatchAndWait(new LoadAction(true));
+    expect(status1.isCompletedFailed).toBe(true);
+    expect(store.state.count).toBe(1);
+
+    let status2 = await store.dispatchAndWait(new LoadAction());
+    expect(status2.isCompletedOk).toBe(true);
+    expect(store.state.count).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('Freshness can be ignored with force, or invalidated.')
+  .given('An action with freshFor, that is still fresh.')
+  .when('The action is dispatched with force.')
+  .then('It runs.')
+  .and('After the freshness is invalidated, it runs again.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    await store.dispatchAndWait(new LoadAction());
+    await store.dispatchAndWait(new LoadAction(false, true));
+    expect(store.state.count).toBe(3);
+
+    await store.dispatchAndWait(new LoadAction());
+    expect(store.state.count).toBe(3);
+
+    store.invalidateFreshness(LoadAction);
+    await store.dispatchAndWait(new LoadAction());
+    expect(store.state.count).toBe(4);
+
+    // Invalidating only some key.
+    await store.dispatchAndWait(new LoadWithKeyAction('A'));
+    await store.dispatchAndWait(new LoadWithKeyAction('B'));
+    store.invalidateFreshness(LoadWithKeyAction, 'A');
+    await store.dispatchAndWait(new LoadWithKeyAction('A'));
+    await store.dispatchAndWait(new LoadWithKeyAction('B'));
+    expect(store.state.count).toBe(7);
+  });
+
+Bdd(feature)
+  .scenario('A forced action dropped by concurrency does not change the freshness.')
+  .given('An action with freshFor and concurrency drop, that is running.')
+  .when('The action is dispatched again with force, and is dropped.')
+  .then('It is marked as aborted.')
+  .and('After the freshness period of the first action, it runs again.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new LoadDroppedAction());
+    let status2 = await store.dispatchAndWait(new LoadDroppedAction(false, true));
+    expect(status2.isAborted).toBe(true);
+
+    await store.waitAllActions([]);
+    expect(store.state.count).toBe(2);
+
+    let action3 = new LoadDroppedAction();
+    store.dispatch(action3);
+    expect(action3.status.isAborted).toBe(true);
+
+    await delayMillis(110);
+    await store.dispatchAndWait(new LoadDroppedAction());
+    expect(store.state.count).toBe(3);
+  });
+
+Bdd(feature)
+  .scenario('A queued action that is cancelled is not fresh.')
+  .given('An action with freshFor and concurrency queue, waiting in the queue.')
+  .when('The queued action is cancelled.')
+  .then('An action with the same key runs when dispatched again.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new LoadQueuedAction('A'));
+    let queued = new LoadQueuedAction('B');
+    store.dispatch(queued);
+
+    expect(store.cancel(queued)).toBe(true);
+    await store.waitAllActions([]);
+    expect(store.state.count).toBe(2);
+
+    let status = await store.dispatchAndWait(new LoadQueuedAction('B'));
+    expect(status.isAborted).toBe(false);
+    expect(store.state.count).toBe(3);
+  });
+
+Bdd(feature)
+  .scenario('A queued action that never runs is not fresh.')
+  .given('An action with freshFor and concurrency queue, waiting in the queue.')
+  .when('The store is shut down, so that the queued action never runs.')
+  .then('After the store restarts, an action with the same key runs when dispatched.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new LoadQueuedAction('A'));
+    store.dispatch(new LoadQueuedAction('B'));
+    store.setShutDown(true);
+
+    await store.waitAllActions([]);
+    expect(store.state.count).toBe(2);
+
+    store.setShutDown(false);
+    let status = await store.dispatchAndWait(new LoadQueuedAction('B'));
+    expect(status.isAborted).toBe(false);
+    expect(store.state.count).toBe(3);
+  });
+
+class State {
+  constructor(readonly count: number) {
+  }
+
+  toString() {
+    return `State(${this.count})`;
+  }
+}
+
+class LoadAction extends KissAction<State> {
+
+  constructor(readonly fail: boolean = false, force: boolean = false) {
+    super();
+    this.force = force;
+  }
+
+  freshFor = 100;
+
+  async reduce() {
+    await delayMillis(10);
+    if (this.fail) throw new UserException('Failed');
+    return (state: State) => new State(state.count + 1);
+  }
+}
+
+class LoadDroppedAction extends LoadAction {
+  concurrency = 'drop' as const;
+}
+
+class LoadWithKeyAction extends KissAction<State> {
+
+  constructor(readonly key: string) {
+    super();
+  }
+
+  freshFor = 100;
+
+  actionKey() {
+    return this.key;
+  }
+
+  async reduce() {
+    await delayMillis(1);
+    return (state: State) => new State(state.count + 1);
+  }
+}
+
+class LoadQueuedAction extends LoadWithKeyAction {
+  concurrency = 'queue' as const;
+}
@@ -0,0 +1,373 @@
+import React, { act, useLayoutEffect } from 'react';
+import TestRenderer, { ReactTestRenderer } from 'react-test-renderer';
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import {
+  createHooks, createStoreContext, KissAction, shallowEqual, Store, StoreProvider, useIsWaiting, useRetryState, useSelect,
+  UserException,
+} from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Hooks');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+// Tells React that the tests wrap updates in `act`.
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+test('Test fixture', async () => {
+  expect(new State(1, 'a').count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('The store notifies its subscribers.')
+  .given('A listener subscribed to the store.')
+  .when('The state changes.')
+  .then('The listener is called.')
+  .and('After unsubscribing, it is not called anymore.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    let calls = 0;
+    let unsubscribe = store.subscribe(() => calls++);
+
+    store.dispatch(new IncrementAction());
+    expect(calls).toBeGreaterThan(0);
+
+    unsubscribe();
+    let callsBefore = calls;
+    store.dispatch(new IncrementAction());
+    expect(calls).toBe(callsBefore);
+  });
+
+Bdd(feature)
+  .scenario('A component rebuilds when the selected part of the state changes.')
+  .given('A component that selects the count.')
+  .when('The count changes, and then only the name changes.')
+  .then('The component rebuilds with the new count.')
+  .and('It does not rebuild when only the name changes.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    let renders = 0;
+
+    function Count() {
+      renders++;
+      const count = useSelect((state: State) => state.count);
+      return <p>{count}</p>;
+    }
+
+    let renderer = await render(store, <Count/>);
+    expect(textOf(renderer)).toBe('1');
+    expect(renders).toBe(1);
+
+    await act(async () => store.dispatch(new IncrementAction()));
+    expect(textOf(renderer)).toBe('2');
+    expect(renders).toBe(2);
+
+    await act(async () => store.dispatch(new SetNameAction('b')));
+    expect(renders).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('A state change between the render and the subscription is not missed.')
+  .given('A component that selects the count.')
+  .and('A sibling that changes the count right after the first render.')
+  .when('Both are rendered.')
+  .then('The component shows the new count.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    function Count() {
+      const count = useSelect((state: State) => state.count);
+      return <p>{count}</p>;
+    }
+
+    // Layout effects run before the passive effects where components subscribe.
+    function IncrementOnMount() {
+      useLayoutEffect(() => store.dispatch(new IncrementAction()), []);
+      return null;
+    }
+
+    let renderer = await render(store, <><Count/><IncrementOnMount/></>);
+    expect(store.state.count).toBe(2);
+    expect(textOf(renderer)).toBe('2');
+  });
+
+Bdd(feature)
+  .scenario('A selector that changes between renders is not stale.')
+  .given('A component whose selector uses a prop.')
+  .when('The component rebuilds with a different prop.')
+  .then('The value is selected with the new selector.')
+  .and('Later state changes also use the new selector.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    function Multiplied({multiplier}: { multiplier: number }) {
+      const value = useSelect((state: State) => state.count * multiplier);
+      return <p>{value}</p>;
+    }
+
+    let renderer = await render(store, <Multiplied multiplier={10}/>);
+    expect(textOf(renderer)).toBe('10');
+
+    await act(async () => renderer.update(
+      <StoreProvider store={store}><Multiplied multiplier={100}/></StoreProvider>
+    ));
+    expect(textOf(renderer)).toBe('100');
+
+    await act(async () => store.dispatch(new IncrementAction()));
+    expect(textOf(renderer)).toBe('200');
+  });
+
+Bdd(feature)
+  .scenario('A component does not rebuild when the equality function says the value is equal.')
+  .given('A component that selects a new object each time, compared with shallowEqual.')
+  .when('The state changes, but the object content does not.')
+  .then('The component does not rebuild.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    let renders = 0;
+
+    function Name() {
+      renders++;
+      const {name} = useSelect((state: State) => ({name: state.name}), shallowEqual);
+      return <p>{name}</p>;
+    }
+
+    let renderer = await render(store, <Name/>);
+    await act(async () => store.dispatch(new IncrementAction()));
+    expect(renders).toBe(1);
+
+    await act(async () => store.dispatch(new SetNameAction('b')));
+    expect(textOf(renderer)).toBe('b');
+    expect(renders).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('Components rebuild when store values change.')
+  .given('A component that uses useIsWaiting.')
+  .when('An async action is dispatched, and then finishes.')
+  .then('The component shows it is waiting, and then that it is not.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    function Spinner() {
+      const isWaiting = useIsWaiting(IncrementAsyncAction);
+      return <p>{isWaiting ? 'waiting' : 'done'}</p>;
+    }
+
+    let renderer = await render(store, <Spinner/>);
+    expect(textOf(renderer)).toBe('done');
+
+    let promise: Promise<any>;
+    await act(async () => {
+      promise = store.dispatchAndWait(new IncrementAsyncAction());
+    });
+    expect(textOf(renderer)).toBe('waiting');
+
+    await act(async () => {
+      await promise;
+    });
+    expect(textOf(renderer)).toBe('done');
+  });
+
+Bdd(feature)
+  .scenario('Components rebuild when the retry state changes.')
+  .given('A component that uses useRetryState.')
+  .when('An action fails, retries, and then succeeds.')
+  .then('The component shows the retry attempt while retrying.')
+  .and('It shows nothing once the action finishes.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    function Retrying() {
+      const retryState = useRetryState(IncrementFailsOnceAction);
+      return <p>{retryState ? `attempt ${retryState.attempt}/${retryState.maxRetries}` : 'none'}</p>;
+    }
+
+    let renderer = await render(store, <Retrying/>);
+    expect(textOf(renderer)).toBe('none');
+
+    let promise: Promise<any>;
+    await act(async () => {
+      promise = store.dispatchAndWait(new IncrementFailsOnceAction());
+      await delayMillis(10);
+    });
+    expect(textOf(renderer)).toBe('attempt 1/3');
+
+    await act(async () => {
+      await promise;
+    });
+    expect(textOf(renderer)).toBe('none');
+    expect(store.state.count).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('A separate store context can be nested inside the app store provider.')
+  .given('An app store, and a feature store with its own context.')
+  .when('A component uses the hooks of both contexts.')
+  .then('Each hook uses its own store.')
+  .and('Dispatching to one store does not change the other.')
+  .run(async (_) => {
+
+    let appStore = new Store<State>({
+      initialState: new State(1, 'app'), logger: logger,
+    });
+
+    let featureStore = new Store<State>({
+      initialState: new State(100, 'feature'), logger: logger,
+    });
+
+    const Feature = createStoreContext<State>();
+
+    let dispatchToFeature: (action: KissAction<State>) => void;
+
+    function Both() {
+      const appCount = useSelect((state: State) => state.count);
+      const featureCount = Feature.useSelect((state) => state.count);
+      dispatchToFeature = Feature.useDispatch();
+      return <p>{appCount}/{featureCount}</p>;
+    }
+
+    let renderer: ReactTestRenderer;
+    await act(async () => {
+      renderer = TestRenderer.create(
+        <StoreProvider store={appStore}>
+          <Feature.StoreProvider store={featureStore}>
+            <Both/>
+          </Feature.StoreProvider>
+        </StoreProvider>
+      );
+    });
+    expect(textOf(renderer!)).toBe('1/100');
+
+    await act(async () => dispatchToFeature(new IncrementAction()));
+    expect(textOf(renderer!)).toBe('1/101');
+    expect(appStore.state.count).toBe(1);
+
+    await act(async () => appStore.dispatch(new IncrementAction()));
+    expect(textOf(renderer!)).toBe('2/101');
+  });
+
+Bdd(feature)
+  .scenario('Hooks can be typed with the state.')
+  .given('Hooks created with createHooks for the app state.')
+  .when('A component uses them.')
+  .then('They use the store of the default provider.')
+  .and('Dispatching an action of some other state type is a compile error.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    const hooks = createHooks<State>();
+
+    let dispatch: (action: KissAction<State>) => void;
+
+    function Count() {
+      const count = hooks.useSelect((state) => state.count);
+      const isWaiting = hooks.useIsWaiting(IncrementAsyncAction);
+      dispatch = hooks.useDispatch();
+      return <p>{count}{isWaiting ? '...' : ''}</p>;
+    }
+
+    let renderer = await render(store, <Count/>);
+    expect(textOf(renderer)).toBe('1');
+
+    await act(async () => dispatch(new IncrementAction()));
+    expect(textOf(renderer)).toBe('2');
+
+    // Never called. It only checks the types.
+    function _compileErrors() {
+      // @ts-expect-error An action of some other state type.
+      dispatch(new OtherStateAction());
+      // @ts-expect-error An action type of some other state type.
+      hooks.useIsWaiting(OtherStateAction);
+    }
+  });
+
+async function render(store: Store<State>, element: React.ReactElement): Promise<ReactTestRenderer> {
+  let renderer: ReactTestRenderer;
+  await act(async () => {
+    renderer = TestRenderer.create(<StoreProvider store={store}>{element}</StoreProvider>);
+  });
+  return renderer!;
+}
+
+function textOf(renderer: ReactTestRenderer): string {
+  return renderer.root.findByType('p').children.join('');
+}
+
+class State {
+  constructor(readonly count: number, readonly name: string) {
+  }
+
+  toString() {
+    return `State(${this.count}, ${this.name})`;
+  }
+}
+
+class IncrementAction extends KissAction<State> {
+  reduce() {
+    return new State(this.state.count + 1, this.state.name);
+  }
+}
+
+class IncrementAsyncAction extends KissAction<State> {
+  async reduce() {
+    await delayMillis(10);
+    return (state: State) => new State(state.count + 1, state.name);
+  }
+}
+
+class IncrementFailsOnceAction extends KissAction<State> {
+
+  retry = {initialDelay: 50};
+
+  async reduce() {
+    if (this.attempts < 1) throw new UserException('Failed');
+    return (state: State) => new State(state.count + 1, state.name);
+  }
+}
+
+class SetNameAction extends KissAction<State> {
+
+  constructor(readonly name: string) {
+    super();
+  }
+
+  reduce() {
+    return new State(this.state.count, this.name);
+  }
+}
+
+class OtherStateAction extends KissAction<string> {
+  reduce() {
+    return this.state + '!';
+  }
+}
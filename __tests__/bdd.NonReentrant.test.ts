@@ -87,6 +87,64 @@ Bdd(feature)
     expect(store.state.count).toBe(11);
   });
 
+Bdd(feature)
+  .scenario('Non-reentrant action with key params only blocks actions with the same params.')
+  .given('An ASYNC non-reentrant action that takes some time to finish.')
+  .and('The action defines its non-reentrant key params.')
+  .when('Two actions with different params are dispatched at the same time.')
+  .and('Another action with the same params as the first one is dispatched.')
+  .then('The actions with different params both run.')
+  .and('The action with the same params is aborted.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    // Actions for user 42 and 43 run at the same time.
+    store.dispatch(new NonReentrantLoadUser(42, 10, 50));
+    store.dispatch(new NonReentrantLoadUser(43, 100, 50));
+
+    // This one is aborted, since user 42 is still loading.
+    store.dispatch(new NonReentrantLoadUser(42, 1000, 10));
+
+    await store.waitAllActions([]);
+    expect(store.state.count).toBe(111);
+
+    // After it finishes, user 42 can be loaded again.
+    await store.dispatchAndWait(new NonReentrantLoadUser(42, 1000, 10));
+    expect(store.state.count).toBe(1111);
+  });
+
+Bdd(feature)
+  .scenario('Non-reentrant actions are also aborted with dispatchAndWait and dispatchSync.')
+  .given('A non-reentrant action that is still running.')
+  .when('An action of the same type is dispatched with dispatchAndWait or dispatchSync.')
+  .then('It is aborted, and marked as aborted.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new NonReentrantAsyncAction(10, 50));
+
+    let status = await store.dispatchAndWait(new NonReentrantAsyncAction(50, 10));
+    expect(status.isAborted).toBe(true);
+    expect(status.isDispatched).toBe(false);
+
+    let action = new NonReentrantAsyncAction(100, 10);
+    store.dispatchSync(action);
+    expect(action.status.isAborted).toBe(true);
+
+    await store.waitAllActions([]);
+    expect(store.state.count).toBe(11);
+
+    // A sync action that calls itself with dispatchSync.
+    store.dispatchSync(new NonReentrantSyncActionCallsItselfSync());
+    expect(store.state.count).toBe(12);
+  });
+
 class State {
   constructor(readonly count: number) {
   }
@@ -106,6 +164,16 @@ class NonReentrantSyncActionCallsItself extends KissAction<State> {
   }
 }
 
+class NonReentrantSyncActionCallsItselfSync extends KissAction<State> {
+
+  nonReentrant = true;
+
+  reduce() {
+    this.dispatchSync(new NonReentrantSyncActionCallsItselfSync());
+    return new State(this.state.count + 1);
+  }
+}
+
 class NonReentrantAsyncActionCallsItself extends KissAction<State> {
 
   nonReentrant = true;
@@ -133,3 +201,25 @@ class NonReentrantAsyncAction extends KissAction<State> {
   }
 }
 
+
+class NonReentrantLoadUser extends KissAction<State> {
+
+  constructor(
+    public userId: number,
+    public increment: number,
+    public delayMillis: number,
+  ) {
+    super();
+  }
+
+  nonReentrant = true;
+
+  nonReentrantKeyParams() {
+    return [this.userId];
+  }
+
+  async reduce() {
+    await delayMillis(this.delayMillis);
+    return (state: State) => new State(state.count + this.increment);
+  }
+}
@@ -0,0 +1,231 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { ClassPersistor, ConnectivityMonitorFake, KissAction, Persistor, Store } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Offline queue');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State([]).messages).toEqual([]);
+});
+
+Bdd(feature)
+  .scenario('Actions dispatched while offline run when the connection is back.')
+  .given('An action with checkInternet option ifOffline: queue.')
+  .and('There is no internet connection.')
+  .when('The action is dispatched twice.')
+  .then('Both are aborted and queued, and the state does not change.')
+  .and('After the connection is back, both actions are dispatched again, in order.')
+  .run(async (_) => {
+
+    let monitor = new ConnectivityMonitorFake(false);
+    let store = new Store<State>({
+      initialState: new State([]), logger: logger, connectivityMonitor: monitor,
+    });
+
+    let status1 = await store.dispatchAndWait(new SendMessage('a'));
+    let status2 = await store.dispatchAndWait(new SendMessage('b'));
+
+    expect(status1.isAborted).toBe(true);
+    expect(status2.isCompletedOk).toBe(true);
+    expect(store.state.messages).toEqual([]);
+    expect(store.pendingOfflineActions().map(action => (action as SendMessage).text)).toEqual(['a', 'b']);
+
+    monitor.setConnected(true);
+    await delayMillis(10);
+
+    expect(store.state.messages).toEqual(['a', 'b']);
+    expect(store.pendingOfflineActions()).toEqual([]);
+  });
+
+Bdd(feature)
+  .scenario('Replayed actions that still find no connection are queued again.')
+  .given('An action queued while offline.')
+  .when('The actions are replayed, but there is still no internet connection.')
+  .then('The action is queued again.')
+  .run(async (_) => {
+
+    let monitor = new ConnectivityMonitorFake(false);
+    let store = new Store<State>({
+      initialState: new State([]), logger: logger, connectivityMonitor: monitor,
+    });
+
+    let action = new SendMessage('a');
+    await store.dispatchAndWait(action);
+
+    store.replayOfflineActions();
+    await delayMillis(10);
+
+    expect(store.state.messages).toEqual([]);
+    expect(store.pendingOfflineActions()).toEqual([action]);
+    expect(action.status.isDispatched).toBe(true);
+    expect(action.status.isAborted).toBe(true);
+  });
+
+Bdd(feature)
+  .scenario('Pending offline actions can be cleared.')
+  .given('Actions of different types queued while offline.')
+  .when('The actions of one type are cleared.')
+  .then('They are not dispatched when the connection is back.')
+  .run(async (_) => {
+
+    let monitor = new ConnectivityMonitorFake(false);
+    let store = new Store<State>({
+      initialState: new State([]), logger: logger, connectivityMonitor: monitor,
+    });
+
+    await store.dispatchAndWait(new SendMessage('a'));
+    await store.dispatchAndWait(new SendUrgentMessage('b'));
+    await store.dispatchAndWait(new SendMessage('c'));
+
+    expect(store.clearOfflineActions(SendUrgentMessage)).toBe(1);
+    expect(store.pendingOfflineActions().length).toBe(2);
+
+    monitor.setConnected(true);
+    await delayMillis(10);
+    expect(store.state.messages).toEqual(['a', 'c']);
+
+    // Clearing all of them.
+    monitor.setConnected(false);
+    await store.dispatchAndWait(new SendMessage('d'));
+    expect(store.clearOfflineActions()).toBe(1);
+    expect(store.pendingOfflineActions()).toEqual([]);
+  });
+
+Bdd(feature)
+  .scenario('The offline queue survives app restarts through the Persistor.')
+  .given('A persistor that saves the offline actions.')
+  .and('An action queued while offline.')
+  .when('The app restarts with an internet connection.')
+  .then('The action is read from the persistor and dispatched.')
+  .run(async (_) => {
+
+    let persistor = new MyPersistor();
+
+    let monitor = new ConnectivityMonitorFake(false);
+    let store1 = new Store<State>({
+      initialState: new State([]), logger: logger, persistor: persistor, connectivityMonitor: monitor,
+    });
+
+    await store1.dispatchAndWait(new SendMessage('a'));
+    await delayMillis(10);
+    expect(persistor.savedActions.length).toBe(1);
+
+    // The app restarts.
+    monitor = new ConnectivityMonitorFake(true);
+    let store2 = new Store<State>({
+      initialState: new State([]), logger: logger, persistor: persistor, connectivityMonitor: monitor,
+    });
+
+    await delayMillis(10);
+    expect(store2.state.messages).toEqual(['a']);
+    expect(store2.pendingOfflineActions()).toEqual([]);
+    expect(persistor.savedActions).toEqual([]);
+  });
+
+Bdd(feature)
+  .scenario('The ClassPersistor can save the offline queue.')
+  .given('A ClassPersistor that saves the offline actions.')
+  .and('An action queued while offline.')
+  .when('The app restarts with an internet connection.')
+  .then('The action is deserialized and dispatched.')
+  .run(async (_) => {
+
+    let serializedState: string | null = null;
+    let serializedActions: string | null = null;
+
+    let persistor = new ClassPersistor<State>(
+      async () => serializedState,
+      async (serialized) => {
+        serializedState = serialized;
+      },
+      async () => {
+        serializedState = null;
+      },
+      [State],
+      {
+        loadSerialized: async () => serializedActions,
+        saveSerialized: async (serialized) => {
+          serializedActions = serialized;
+        },
+        classesToSerialize: [SendMessage],
+      },
+    );
+
+    let monitor = new ConnectivityMonitorFake(false);
+    let store1 = new Store<State>({
+      initialState: new State([]), logger: logger, persistor: persistor, connectivityMonitor: monitor,
+    });
+
+    await store1.dispatchAndWait(new SendMessage('a'));
+    await delayMillis(10);
+    expect(serializedActions).toContain('SendMessage');
+
+    // The app restarts.
+    monitor = new ConnectivityMonitorFake(true);
+    let store2 = new Store<State>({
+      initialState: new State([]), logger: logger, persistor: persistor, connectivityMonitor: monitor,
+    });
+
+    await delayMillis(10);
+    expect(store2.state.messages).toEqual(['a']);
+    expect(store2.pendingOfflineActions()).toEqual([]);
+    expect(await persistor.readOfflineActions()).toEqual([]);
+  });
+
+class State {
+  constructor(readonly messages: string[]) {
+  }
+
+  toString() {
+    return `State(${this.messages})`;
+  }
+}
+
+class SendMessage extends KissAction<State> {
+
+  constructor(readonly text: string) {
+    super();
+  }
+
+  checkInternet = {ifOffline: 'queue'} as const;
+
+  reduce() {
+    return new State([...this.state.messages, this.text]);
+  }
+}
+
+class SendUrgentMessage extends SendMessage {
+}
+
+class MyPersistor extends Persistor<State> {
+  savedActions: KissAction<State>[] = [];
+
+  async readState(): Promise<State | null> {
+    return null;
+  }
+
+  async deleteState(): Promise<void> {
+  }
+
+  async persistDifference(_lastPersistedState: State | null, _newState: State): Promise<void> {
+  }
+
+  async saveInitialState(_state: State): Promise<void> {
+  }
+
+  async readOfflineActions(): Promise<KissAction<State>[]> {
+    return this.savedActions;
+  }
+
+  async saveOfflineActions(actions: KissAction<State>[]): Promise<void> {
+    this.savedActions = actions;
+  }
+
+  get throttle(): number | null {
+    return null;
+  }
+}
@@ -0,0 +1,217 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { OptimisticCommand, OptimisticPart, Store, UpdateStateAction, UserException } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Optimistic commands');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(false, 0, '').likes).toBe(0);
+});
+
+Bdd(feature)
+  .scenario('An optimistic command changes several parts of the state right away.')
+  .given('A command that changes the liked flag and the likes count.')
+  .when('The command is dispatched, and the save succeeds.')
+  .then('Both parts are changed before the save finishes.')
+  .and('They are kept after the save finishes.')
+  .and('The entity is pending sync only while saving.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(false, 10, ''), logger: logger,
+    });
+
+    let savedLikes: boolean[] = [];
+    let promise = store.dispatchAndWait(new LikePost(true, false, savedLikes));
+    expect(store.state.liked).toBe(true);
+    expect(store.state.likes).toBe(11);
+    expect(savedLikes).toEqual([]);
+    expect(store.isPendingSync('post')).toBe(true);
+
+    let status = await promise;
+    expect(status.isCompletedOk).toBe(true);
+    expect(store.isPendingSync('post')).toBe(false);
+    expect(savedLikes).toEqual([true]);
+    expect(store.state.liked).toBe(true);
+    expect(store.state.likes).toBe(11);
+  });
+
+Bdd(feature)
+  .scenario('A failed command rolls back only the parts nobody else changed.')
+  .given('A command that changes the liked flag and the likes count.')
+  .when('The save fails, after some other action changed the likes count.')
+  .then('The action fails with the error.')
+  .and('The liked flag is rolled back, but the likes count is not.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(false, 10, ''), logger: logger,
+    });
+
+    let promise = store.dispatchAndWait(new LikePost(true, true, []));
+    store.dispatch(new UpdateStateAction((state: State) => new State(state.liked, 50, state.comment)));
+
+    let status = await promise;
+    expect(status.isCompletedFailed).toBe(true);
+    expect(status.wrappedError).toEqual(new UserException('Save failed.'));
+    expect(store.state.liked).toBe(false);
+    expect(store.state.likes).toBe(50);
+  });
+
+Bdd(feature)
+  .scenario('Commands against the same entity are saved in order.')
+  .given('Like, unlike and like commands against the same post.')
+  .when('They are dispatched in a quick sequence.')
+  .then('They are saved one after the other, in order.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(false, 10, ''), logger: logger,
+    });
+
+    let savedLikes: boolean[] = [];
+    store.dispatch(new LikePost(true, false, savedLikes, 30));
+    store.dispatch(new LikePost(false, false, savedLikes, 1));
+    store.dispatch(new LikePost(true, false, savedLikes, 1));
+    expect(store.state.liked).toBe(true);
+    expect(store.state.likes).toBe(11);
+
+    await store.waitAllActions([]);
+    expect(savedLikes).toEqual([true, false, true]);
+    expect(store.state.liked).toBe(true);
+  });
+
+Bdd(feature)
+  .scenario('A like, unlike, like sequence resolves correctly when saves fail.')
+  .given('Like, unlike and like commands against the same post.')
+  .when('Some of the saves fail.')
+  .then('The state ends with the value of the last successful command.')
+  .run(async (_) => {
+
+    async function likeUnlikeLike(fail: [boolean, boolean, boolean]): Promise<State> {
+      let store = new Store<State>({
+        initialState: new State(false, 10, ''), logger: logger,
+      });
+      store.dispatch(new LikePost(true, fail[0], []));
+      store.dispatch(new LikePost(false, fail[1], []));
+      store.dispatch(new LikePost(true, fail[2], []));
+      await store.waitAllActions([]);
+      return store.state;
+    }
+
+    // All saves fail: Back to not liked.
+    let state = await likeUnlikeLike([true, true, true]);
+    expect(state.liked).toBe(false);
+    expect(state.likes).toBe(10);
+
+    // Only the unlike fails: Liked.
+    state = await likeUnlikeLike([false, true, false]);
+    expect(state.liked).toBe(true);
+    expect(state.likes).toBe(11);
+
+    // The unlike and the last like fail: Liked, because of the first like.
+    state = await likeUnlikeLike([false, true, true]);
+    expect(state.liked).toBe(true);
+    expect(state.likes).toBe(11);
+
+    // Only the last like fails: Not liked, because of the unlike.
+    state = await likeUnlikeLike([false, false, true]);
+    expect(state.liked).toBe(false);
+    expect(state.likes).toBe(10);
+
+    // The first like fails: Liked, because of the last like.
+    state = await likeUnlikeLike([true, false, false]);
+    expect(state.liked).toBe(true);
+    expect(state.likes).toBe(11);
+  });
+
+Bdd(feature)
+  .scenario('Commands against different entities are saved independently.')
+  .given('Two commands without an entity key.')
+  .when('They are dispatched in a quick sequence.')
+  .then('The second one is saved without waiting for the first.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(false, 10, ''), logger: logger,
+    });
+
+    let saved: string[] = [];
+    store.dispatch(new SetComment('a', saved, 30));
+    store.dispatch(new SetComment('b', saved, 1));
+    expect(store.state.comment).toBe('b');
+
+    await store.waitAllActions([]);
+    expect(saved).toEqual(['b', 'a']);
+  });
+
+class State {
+  constructor(readonly liked: boolean, readonly likes: number, readonly comment: string) {
+  }
+
+  toString() {
+    return `State(${this.liked}, ${this.likes}, ${this.comment})`;
+  }
+}
+
+class LikePost extends OptimisticCommand<State> {
+
+  constructor(readonly like: boolean,
+              readonly fail: boolean,
+              readonly savedLikes: boolean[],
+              readonly saveMillis: number = 10) {
+    super();
+  }
+
+  entityKey() {
+    return 'post';
+  }
+
+  optimisticParts(): OptimisticPart<State>[] {
+    return [
+      {
+        key: 'liked',
+        get: (state: State) => state.liked,
+        set: (state: State, liked: boolean) => new State(liked, state.likes, state.comment),
+        value: this.like,
+      },
+      {
+        key: 'likes',
+        get: (state: State) => state.likes,
+        set: (state: State, likes: number) => new State(state.liked, likes, state.comment),
+        value: this.state.likes + (this.like ? 1 : -1),
+      },
+    ];
+  }
+
+  async save() {
+    await delayMillis(this.saveMillis);
+    if (this.fail) throw new UserException('Save failed.');
+    this.savedLikes.push(this.like);
+  }
+}
+
+class SetComment extends OptimisticCommand<State> {
+
+  constructor(readonly comment: string, readonly saved: string[], readonly saveMillis: number) {
+    super();
+  }
+
+  optimisticParts(): OptimisticPart<State>[] {
+    return [{
+      key: 'comment',
+      get: (state: State) => state.comment,
+      set: (state: State, comment: string) => new State(state.liked, state.likes, comment),
+      value: this.comment,
+    }];
+  }
+
+  async save() {
+    await delayMillis(this.saveMillis);
+    this.saved.push(this.comment);
+  }
+}
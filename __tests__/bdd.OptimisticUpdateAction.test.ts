@@ -1,5 +1,7 @@
 import { expect } from '@jest/globals';
-import { Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { OptimisticUpdate, Store, UserException } from '../src';
+import { delayMillis } from "../src/utils";
 
 reporter(new FeatureFileReporter());
 
@@ -7,7 +9,140 @@ const feature = new Feature('Optimistic update actions');
 const logger = (obj: any) => process.stdout.write(obj + '\n');
 
 test('Test fixture', async () => {
-  expect(1).toBe(1);
-  // TODO: Test mixin: OptimisticUpdate
+  expect(new State('a').name).toBe('a');
 });
 
+Bdd(feature)
+  .scenario('The value is applied right away, and is pending sync until saved.')
+  .given('An optimistic update with an entity key.')
+  .when('It is dispatched, and the save succeeds.')
+  .then('The value is applied before the save finishes.')
+  .and('The entity is pending sync only while saving.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State('a'), logger: logger,
+    });
+
+    let action = new SaveName('b', {});
+    let promise = store.dispatchAndWait(action);
+    expect(store.state.name).toBe('b');
+    expect(store.isPendingSync('name')).toBe(true);
+
+    let status = await promise;
+    expect(status.isCompletedOk).toBe(true);
+    expect(store.state.name).toBe('b');
+    expect(store.isPendingSync('name')).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('When the save fails, the value is rolled back and the action fails.')
+  .given('An optimistic update.')
+  .when('The save fails.')
+  .then('The value is rolled back.')
+  .and('The action fails with the save error, so that the user is informed.')
+  .and('The entity is not pending sync anymore.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State('a'), logger: logger,
+    });
+
+    let status = await store.dispatchAndWait(new SaveName('b', {saveFails: true}));
+    expect(status.isCompletedFailed).toBe(true);
+    expect(status.wrappedError).toEqual(new UserException('Save failed.'));
+    expect(store.state.name).toBe('a');
+    expect(store.isPendingSync('name')).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('When the reloaded value is not the saved one, onConflict decides the value.')
+  .given('An optimistic update that implements onConflict.')
+  .when('The save succeeds, but the reloaded value is different.')
+  .then('onConflict gets the saved, reloaded and current values.')
+  .and('The value it returns is applied to the state.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State('a'), logger: logger,
+    });
+
+    let action = new SaveName('b', {reloaded: 'c'});
+    await store.dispatchAndWait(action);
+    expect(action.conflict).toEqual(['b', 'c', 'b']);
+    expect(store.state.name).toBe('b+c');
+
+    // Without a conflict, onConflict is not called.
+    action = new SaveName('d', {reloaded: 'd'});
+    await store.dispatchAndWait(action);
+    expect(action.conflict).toBeNull();
+    expect(store.state.name).toBe('d');
+  });
+
+Bdd(feature)
+  .scenario('When the reload fails, the saved value is kept and the action succeeds.')
+  .given('An optimistic update.')
+  .when('The save succeeds, but the reload fails.')
+  .then('The saved value is not rolled back.')
+  .and('The action does not fail.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State('a'), logger: logger,
+    });
+
+    let status = await store.dispatchAndWait(new SaveName('b', {reloadFails: true}));
+    expect(status.isCompletedOk).toBe(true);
+    expect(store.state.name).toBe('b');
+    expect(store.isPendingSync('name')).toBe(false);
+  });
+
+class State {
+  constructor(readonly name: string) {
+  }
+
+  toString() {
+    return `State(${this.name})`;
+  }
+}
+
+class SaveName extends OptimisticUpdate<State> {
+
+  conflict: any[] | null = null;
+
+  constructor(readonly name: string,
+              readonly options: { saveFails?: boolean, reloadFails?: boolean, reloaded?: string }) {
+    super();
+  }
+
+  entityKey() {
+    return 'name';
+  }
+
+  newValue() {
+    return this.name;
+  }
+
+  getValueFromState(state: State) {
+    return state.name;
+  }
+
+  applyState(value: any, _state: State) {
+    return new State(value);
+  }
+
+  async saveValue(_newValue: any) {
+    await delayMillis(10);
+    if (this.options.saveFails) throw new UserException('Save failed.');
+  }
+
+  async reloadValue() {
+    if (this.options.reloadFails) throw new UserException('Reload failed.');
+    return this.options.reloaded ?? this.getValueFromState(this.state);
+  }
+
+  onConflict(savedValue: any, reloadedValue: any, currentValue: any) {
+    this.conflict = [savedValue, reloadedValue, currentValue];
+    return savedValue + '+' + reloadedValue;
+  }
+}
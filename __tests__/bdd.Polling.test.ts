@@ -0,0 +1,143 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { KissAction, Store } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Polling');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1).count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('Polling dispatches the action on an interval, until stopped.')
+  .given('A sync action.')
+  .when('We start polling it every 20 millis.')
+  .then('It is dispatched right away, and then on every tick.')
+  .and('After polling is stopped, it is not dispatched anymore.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(0), logger: logger,
+    });
+
+    let polling = store.startPolling(() => new IncrementAction(), 20);
+    expect(polling.isPolling).toBe(true);
+    expect(store.state.count).toBe(1);
+
+    await delayMillis(50);
+    expect(store.state.count).toBeGreaterThanOrEqual(2);
+
+    polling.stop();
+    expect(polling.isPolling).toBe(false);
+    let count = store.state.count;
+
+    await delayMillis(50);
+    expect(store.state.count).toBe(count);
+  });
+
+Bdd(feature)
+  .scenario('Polling skips a tick while the previous action is still in progress.')
+  .given('An async action that takes 50 millis.')
+  .when('We start polling it every 20 millis.')
+  .then('A new action is only dispatched after the previous one finishes.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(0), logger: logger,
+    });
+
+    let polling = store.startPolling(() => new SlowIncrementAction(), 20);
+
+    await delayMillis(90);
+    polling.stop();
+    await store.waitAllActions([]);
+
+    // Started at 0 and at 60 (the ticks at 20 and 40 were skipped).
+    expect(store.state.count).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('Polling pauses while the store is shut down.')
+  .given('A sync action.')
+  .when('We poll it, while the store is shut down.')
+  .then('It is not dispatched.')
+  .and('After the store is not shut down anymore, it is dispatched again.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(0), logger: logger,
+    });
+
+    store.setShutDown(true);
+    let polling = store.startPolling(() => new IncrementAction(), 20);
+
+    await delayMillis(50);
+    expect(store.state.count).toBe(0);
+
+    store.setShutDown(false);
+    await delayMillis(30);
+    polling.stop();
+    expect(store.state.count).toBeGreaterThanOrEqual(1);
+  });
+
+Bdd(feature)
+  .scenario('Polling goes on after a tick throws an error.')
+  .given('An action factory that throws on the first tick.')
+  .and('A sync action that throws an error that is not a UserException, on the second tick.')
+  .when('We start polling every 20 millis.')
+  .then('The errors are logged, and the following ticks still dispatch the action.')
+  .run(async (_) => {
+
+    let logs: string[] = [];
+    let store = new Store<State>({
+      initialState: new State(0), logger: (obj: any) => logs.push(String(obj)),
+    });
+
+    let ticks = 0;
+    let polling = store.startPolling(() => {
+      ticks++;
+      if (ticks === 1) throw new Error('Create failed');
+      if (ticks === 2) return new FailingAction();
+      return new IncrementAction();
+    }, 20);
+
+    await delayMillis(70);
+    polling.stop();
+
+    expect(polling.isPolling).toBe(false);
+    expect(store.state.count).toBeGreaterThanOrEqual(1);
+    expect(logs.some(log => log.includes('Create failed'))).toBe(true);
+    expect(logs.some(log => log.includes('Action failed'))).toBe(true);
+  });
+
+class State {
+  constructor(readonly count: number) {
+  }
+
+  toString() {
+    return `State(${this.count})`;
+  }
+}
+
+class IncrementAction extends KissAction<State> {
+  reduce() {
+    return new State(this.state.count + 1);
+  }
+}
+
+class SlowIncrementAction extends KissAction<State> {
+  async reduce() {
+    await delayMillis(50);
+    return (state: State) => new State(state.count + 1);
+  }
+}
+
+class FailingAction extends KissAction<State> {
+  reduce(): State {
+    throw new Error('Action failed');
+  }
+}
@@ -1,6 +1,6 @@
 import { expect, test } from '@jest/globals';
 import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
-import { KissAction, Store, StoreException, UserException } from '../src';
+import { KissAction, Retry, Store, StoreException, UserException } from '../src';
 import { delayMillis } from "../src/utils";
 
 reporter(new FeatureFileReporter());
@@ -34,7 +34,7 @@ Bdd(feature)
     let action = new SyncActionThatRetriesAndSucceeds();
     await store.dispatchAndWait(action);
     expect(action.attempts).toBe(5);
-    expect(action.log).toBe('012345');
+    expect(action.logText).toBe('012345');
 
     // Should fail because the action is SYNC.
     // Only ASYNC actions can retry.
@@ -63,7 +63,7 @@ Bdd(feature)
     let action = new AsyncActionThatRetriesAndSucceeds();
     await store.dispatchAndWait(action);
     expect(action.attempts).toBe(5);
-    expect(action.log).toBe('012345');
+    expect(action.logText).toBe('012345');
     expect(store.state.count).toBe(2);
     expect(action.status.isCompletedOk).toBe(true);
   });
@@ -86,7 +86,7 @@ Bdd(feature)
     expect(action.status.isCompletedOk).toBe(true);
     expect(store.state.count).toBe(2);
     expect(action.attempts).toBe(7);
-    expect(action.log).toBe('01234567');
+    expect(action.logText).toBe('01234567');
   });
 
 Bdd(feature)
@@ -105,7 +105,7 @@ Bdd(feature)
     await store.dispatchAndWait(action);
     expect(store.state.count).toBe(1);
     expect(action.attempts).toBe(4);
-    expect(action.log).toBe('0123');
+    expect(action.logText).toBe('0123');
     expect(action.status.isCompletedFailed).toBe(true);
   });
 
@@ -124,7 +124,7 @@ Bdd(feature)
     let action = new ActionThatRetriesButSucceedsTheFirstTry();
     await store.dispatchAndWait(action);
     expect(action.attempts).toBe(0);
-    expect(action.log).toBe('0');
+    expect(action.logText).toBe('0');
     expect(store.state.count).toBe(2);
     expect(action.status.isCompletedOk).toBe(true);
 
@@ -132,6 +132,164 @@ Bdd(feature)
     expect(() => store.dispatchSync(action)).toThrow(StoreException);
   });
 
+Bdd(feature)
+  .scenario('Action does not retry errors rejected by shouldRetry.')
+  .given('An action that retries, but not for user exceptions.')
+  .and('The action fails with a user exception.')
+  .when('The action is dispatched.')
+  .then('It does NOT retry, and fails right away.')
+  .run(async (_) => {
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let action = new ActionThatDoesNotRetryUserExceptions();
+    await store.dispatchAndWait(action);
+    expect(action.logText).toBe('0');
+    expect(action.status.isCompletedFailed).toBe(true);
+    expect(store.state.count).toBe(1);
+  });
+
+Bdd(feature)
+  .scenario('The onRetry callback is called for each retry, with exponential delays.')
+  .given('An action that retries up to 3 times, with an onRetry callback.')
+  .and('The action always fails.')
+  .when('The action is dispatched.')
+  .then('The onRetry callback is called 3 times.')
+  .and('It gets the error, the attempt number, and the delay, which grows exponentially.')
+  .run(async (_) => {
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let retries: string[] = [];
+    let action = new ActionThatAlwaysFails({
+      initialDelay: 10,
+      onRetry: (error, attempt, delay) => retries.push(`${error.message}|${attempt}|${delay}`),
+    });
+
+    await store.dispatchAndWait(action);
+    expect(retries).toEqual(['Failed|1|10', 'Failed|2|20', 'Failed|3|40']);
+    expect(action.status.isCompletedFailed).toBe(true);
+  });
+
+Bdd(feature)
+  .scenario('The jitter randomizes the retry delays.')
+  .given('An action that retries with jitter.')
+  .and('The action always fails.')
+  .when('The action is dispatched.')
+  .then('The delays are randomized around the exponential delays.')
+  .run(async (_) => {
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let delays: number[] = [];
+    let action = new ActionThatAlwaysFails({
+      initialDelay: 10,
+      jitter: 0.5,
+      onRetry: (_error, _attempt, delay) => delays.push(delay),
+    });
+
+    await store.dispatchAndWait(action);
+    expect(delays.length).toBe(3);
+    expect(delays[0]).toBeGreaterThanOrEqual(5);
+    expect(delays[0]).toBeLessThanOrEqual(15);
+    expect(delays[1]).toBeGreaterThanOrEqual(10);
+    expect(delays[1]).toBeLessThanOrEqual(30);
+    expect(delays[2]).toBeGreaterThanOrEqual(20);
+    expect(delays[2]).toBeLessThanOrEqual(60);
+  });
+
+Bdd(feature)
+  .scenario('The error can carry a server-suggested retry delay.')
+  .given('An action that retries.')
+  .and('The action fails with an error that has a retryAfterMillis property.')
+  .when('The action is dispatched.')
+  .then('The retry uses the suggested delay.')
+  .run(async (_) => {
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let delays: number[] = [];
+    let action = new ActionThatAlwaysFails({
+      initialDelay: 10,
+      maxRetries: 1,
+      onRetry: (_error, _attempt, delay) => delays.push(delay),
+    }, 3);
+
+    await store.dispatchAndWait(action);
+    expect(delays).toEqual([3]);
+  });
+
+Bdd(feature)
+  .scenario('The store publishes the retry state of the retrying action.')
+  .given('An action that retries up to 3 times.')
+  .and('The action fails the first 2 times.')
+  .when('The action is dispatched.')
+  .then('While it is retrying, we can get its retry attempt, delay and next retry time.')
+  .and('A new retry state is created for each retry.')
+  .and('When the action finishes, there is no retry state anymore.')
+  .run(async (_) => {
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    expect(store.retryState(ActionThatFailsTwice)).toBeNull();
+
+    let start = Date.now();
+    let promise = store.dispatchAndWait(new ActionThatFailsTwice());
+    await delayMillis(10);
+
+    let retryState1 = store.retryState(ActionThatFailsTwice);
+    expect(retryState1?.attempt).toBe(1);
+    expect(retryState1?.maxRetries).toBe(3);
+    expect(retryState1?.delay).toBe(50);
+    expect(retryState1?.error).toEqual(new UserException('Failed: 0'));
+    expect(retryState1!.nextRetryAt).toBeGreaterThanOrEqual(start + 50);
+
+    await delayMillis(60);
+    let retryState2 = store.retryState(ActionThatFailsTwice);
+    expect(retryState2).not.toBe(retryState1);
+    expect(retryState2?.attempt).toBe(2);
+    expect(retryState2?.delay).toBe(100);
+
+    await promise;
+    expect(store.retryState(ActionThatFailsTwice)).toBeNull();
+    expect(store.state.count).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('The retry state is updated when the retry starts.')
+  .given('A slow action that fails the first time, and then retries.')
+  .when('The retry is running.')
+  .then('The retry state says the retry started, with no delay.')
+  .and('When the action finishes, there is no retry state anymore.')
+  .run(async (_) => {
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let promise = store.dispatchAndWait(new SlowActionThatFailsOnce());
+    await delayMillis(75);
+
+    let waitingState = store.retryState(SlowActionThatFailsOnce);
+    expect(waitingState?.attempt).toBe(1);
+    expect(waitingState?.delay).toBe(50);
+
+    await delayMillis(50);
+    let runningState = store.retryState(SlowActionThatFailsOnce);
+    expect(runningState).not.toBe(waitingState);
+    expect(runningState?.attempt).toBe(1);
+    expect(runningState?.delay).toBe(0);
+    expect(runningState!.nextRetryAt).toBeLessThanOrEqual(Date.now());
+
+    await promise;
+    expect(store.retryState(SlowActionThatFailsOnce)).toBeNull();
+    expect(store.state.count).toBe(2);
+  });
+
 class State {
   count: number;
 
@@ -146,7 +304,7 @@ class State {
 
 class SyncActionThatRetriesAndSucceeds extends KissAction<State> {
 
-  log: string = '';
+  logText: string = '';
 
   retry = {
     initialDelay: 10,
@@ -154,7 +312,7 @@ class SyncActionThatRetriesAndSucceeds extends KissAction<State> {
   }
 
   reduce() {
-    this.log += this.attempts.toString();
+    this.logText += this.attempts.toString();
     if (this.attempts <= 4) throw new UserException(`Failed: ${this.attempts}`);
     return new State(this.state.count + 1);
   }
@@ -162,7 +320,7 @@ class SyncActionThatRetriesAndSucceeds extends KissAction<State> {
 
 class AsyncActionThatRetriesAndSucceeds extends KissAction<State> {
 
-  log: string = '';
+  logText: string = '';
 
   retry = {
     initialDelay: 10,
@@ -170,19 +328,19 @@ class AsyncActionThatRetriesAndSucceeds extends KissAction<State> {
   }
 
   async reduce() {
-    this.log += this.attempts.toString();
+    this.logText += this.attempts.toString();
     if (this.attempts <= 4) throw new UserException(`Failed: ${this.attempts}`);
     return (state: State) => new State(state.count + 1);
   }
 }
 
 class ActionThatRetriesAndFails extends KissAction<State> {
-  log: string = '';
+  logText: string = '';
 
   retry = {initialDelay: 10}
 
   async reduce() {
-    this.log += this.attempts.toString();
+    this.logText += this.attempts.toString();
     if (this.attempts <= 4) throw new UserException(`Failed: ${this.attempts}`);
     return (state: State) => new State(this.state.count + 1);
   }
@@ -190,7 +348,7 @@ class ActionThatRetriesAndFails extends KissAction<State> {
 
 class ActionThatRetriesButSucceedsTheFirstTry extends KissAction<State> {
 
-  log: string = '';
+  logText: string = '';
 
   retry = {
     initialDelay: 10,
@@ -198,14 +356,14 @@ class ActionThatRetriesButSucceedsTheFirstTry extends KissAction<State> {
   }
 
   async reduce() {
-    this.log += this.attempts.toString();
+    this.logText += this.attempts.toString();
     return (state: State) => new State(this.state.count + 1);
   }
 }
 
 class ActionThatRetriesUnlimitedAndFails extends KissAction<State> {
 
-  log: string = '';
+  logText: string = '';
 
   retry = {
     initialDelay: 10,
@@ -213,8 +371,57 @@ class ActionThatRetriesUnlimitedAndFails extends KissAction<State> {
   }
 
   async reduce() {
-    this.log += this.attempts.toString();
+    this.logText += this.attempts.toString();
     if (this.attempts <= 6) throw new UserException(`Failed: ${this.attempts}`);
     return (state: State) => new State(this.state.count + 1);
   }
 }
+
+class ActionThatDoesNotRetryUserExceptions extends KissAction<State> {
+
+  logText: string = '';
+
+  retry = {
+    initialDelay: 10,
+    shouldRetry: (error: any) => !(error instanceof UserException),
+  }
+
+  async reduce(): Promise<(state: State) => State> {
+    this.logText += this.attempts.toString();
+    throw new UserException(`Failed: ${this.attempts}`);
+  }
+}
+
+class ActionThatAlwaysFails extends KissAction<State> {
+
+  constructor(readonly retry: Retry, readonly retryAfterMillis?: number) {
+    super();
+  }
+
+  async reduce(): Promise<(state: State) => State> {
+    let error = new UserException('Failed');
+    if (this.retryAfterMillis !== undefined) (error as any).retryAfterMillis = this.retryAfterMillis;
+    throw error;
+  }
+}
+
+class SlowActionThatFailsOnce extends KissAction<State> {
+
+  retry = {initialDelay: 50}
+
+  async reduce() {
+    await delayMillis(50);
+    if (this.attempts < 1) throw new UserException(`Failed: ${this.attempts}`);
+    return (state: State) => new State(state.count + 1);
+  }
+}
+
+class ActionThatFailsTwice extends KissAction<State> {
+
+  retry = {initialDelay: 50}
+
+  async reduce() {
+    if (this.attempts < 2) throw new UserException(`Failed: ${this.attempts}`);
+    return (state: State) => new State(state.count + 1);
+  }
+}
@@ -0,0 +1,173 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { createSelector, deepEqual, KissAction, shallowEqual, Store } from '../src';
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Selectors');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State([], 'a').filter).toBe('a');
+});
+
+Bdd(feature)
+  .scenario('A memoized selector recomputes only when its inputs change.')
+  .given('A selector created with createSelector, that filters the todos.')
+  .when('The state changes, but the todos do not.')
+  .then('The selector returns the same result, without recomputing it.')
+  .and('When the todos change, it recomputes the result.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State([new Todo('a', true), new Todo('b', false)], ''), logger: logger,
+    });
+
+    const selectCompleted = createSelector(
+      [(state: State) => state.todos],
+      (todos) => todos.filter(todo => todo.completed)
+    );
+
+    let completed = selectCompleted(store.state);
+    expect(completed.map(todo => todo.text)).toEqual(['a']);
+    expect(selectCompleted.recomputations).toBe(1);
+
+    // Same state.
+    expect(selectCompleted(store.state)).toBe(completed);
+    expect(selectCompleted.recomputations).toBe(1);
+
+    // The state changed, but not the todos.
+    store.dispatch(new SetFilter('x'));
+    expect(selectCompleted(store.state)).toBe(completed);
+    expect(selectCompleted.recomputations).toBe(1);
+
+    // The todos changed.
+    store.dispatch(new AddTodo(new Todo('c', true)));
+    expect(selectCompleted(store.state).map(todo => todo.text)).toEqual(['a', 'c']);
+    expect(selectCompleted.recomputations).toBe(2);
+
+    // Clearing the cache forces a recomputation.
+    selectCompleted.clearCache();
+    selectCompleted(store.state);
+    expect(selectCompleted.recomputations).toBe(3);
+  });
+
+Bdd(feature)
+  .scenario('Memoized selectors can be derived from other selectors.')
+  .given('A selector that counts the completed todos.')
+  .and('A selector that combines the completed todos with the filter.')
+  .when('Only the filter changes.')
+  .then('Only the selector that depends on the filter recomputes.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State([new Todo('ab', true), new Todo('b', true)], ''), logger: logger,
+    });
+
+    const selectCompleted = createSelector(
+      [(state: State) => state.todos],
+      (todos) => todos.filter(todo => todo.completed)
+    );
+
+    const selectCompletedCount = createSelector(
+      [selectCompleted],
+      (completed) => completed.length
+    );
+
+    const selectFilteredCompleted = createSelector(
+      [selectCompleted, (state: State) => state.filter],
+      (completed, filter) => completed.filter(todo => todo.text.includes(filter))
+    );
+
+    expect(selectCompletedCount(store.state)).toBe(2);
+    expect(selectFilteredCompleted(store.state).length).toBe(2);
+
+    store.dispatch(new SetFilter('a'));
+    expect(selectCompletedCount(store.state)).toBe(2);
+    expect(selectFilteredCompleted(store.state).map(todo => todo.text)).toEqual(['ab']);
+
+    expect(selectCompleted.recomputations).toBe(1);
+    expect(selectCompletedCount.recomputations).toBe(1);
+    expect(selectFilteredCompleted.recomputations).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('Selected values can be compared with shallowEqual.')
+  .given('Two arrays or objects with identical items.')
+  .when('They are compared with shallowEqual.')
+  .then('They are equal.')
+  .and('They are not equal if some item is different, or is equal but not identical.')
+  .run(async (_) => {
+
+    let todo = new Todo('a', true);
+
+    expect(shallowEqual(1, 1)).toBe(true);
+    expect(shallowEqual(NaN, NaN)).toBe(true);
+    expect(shallowEqual([1, todo], [1, todo])).toBe(true);
+    expect(shallowEqual({name: 'a', todo}, {name: 'a', todo})).toBe(true);
+    expect(shallowEqual(new Todo('a', true), new Todo('a', true))).toBe(true);
+
+    expect(shallowEqual(1, 2)).toBe(false);
+    expect(shallowEqual([1, 2], [1, 2, 3])).toBe(false);
+    expect(shallowEqual({name: 'a'}, {name: 'b'})).toBe(false);
+    expect(shallowEqual({name: 'a'}, {name: 'a', other: undefined})).toBe(false);
+    expect(shallowEqual([new Todo('a', true)], [new Todo('a', true)])).toBe(false);
+    expect(shallowEqual({text: 'a', completed: true}, new Todo('a', true))).toBe(false);
+    expect(shallowEqual(null, {})).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('Selected values can be compared with deepEqual.')
+  .given('Nested arrays, objects, maps, sets and dates.')
+  .when('They are compared with deepEqual.')
+  .then('They are equal if they are structurally equal.')
+  .run(async (_) => {
+
+    expect(deepEqual([new Todo('a', true)], [new Todo('a', true)])).toBe(true);
+    expect(deepEqual({todos: [new Todo('a', true)]}, {todos: [new Todo('a', true)]})).toBe(true);
+    expect(deepEqual(new Map([['a', [1]]]), new Map([['a', [1]]]))).toBe(true);
+    expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(deepEqual(new Date(1000), new Date(1000))).toBe(true);
+
+    expect(deepEqual([new Todo('a', true)], [new Todo('a', false)])).toBe(false);
+    expect(deepEqual(new Map([['a', [1]]]), new Map([['a', [2]]]))).toBe(false);
+    expect(deepEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+    expect(deepEqual(new Date(1000), new Date(2000))).toBe(false);
+    expect(deepEqual({text: 'a', completed: true}, new Todo('a', true))).toBe(false);
+  });
+
+class Todo {
+  constructor(readonly text: string, readonly completed: boolean) {
+  }
+}
+
+class State {
+  constructor(readonly todos: Todo[], readonly filter: string) {
+  }
+
+  toString() {
+    return `State(${this.todos.length}, ${this.filter})`;
+  }
+}
+
+class SetFilter extends KissAction<State> {
+
+  constructor(readonly filter: string) {
+    super();
+  }
+
+  reduce() {
+    return new State(this.state.todos, this.filter);
+  }
+}
+
+class AddTodo extends KissAction<State> {
+
+  constructor(readonly todo: Todo) {
+    super();
+  }
+
+  reduce() {
+    return new State([...this.state.todos, this.todo], this.state.filter);
+  }
+}
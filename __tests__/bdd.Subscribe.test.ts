@@ -0,0 +1,95 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { KissAction, shallowEqual, Store } from '../src';
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Subscribe');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1, 'a').count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('A listener can subscribe to a part of the state.')
+  .given('A listener subscribed to the count.')
+  .when('The count changes, and then only the name changes.')
+  .then('The listener is called with the new and previous counts.')
+  .and('It is not called when only the name changes.')
+  .and('After unsubscribing, it is not called anymore.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    let calls: number[][] = [];
+    let unsubscribe = store.subscribeTo(
+      (state: State) => state.count,
+      (count, previousCount) => calls.push([count, previousCount]),
+    );
+
+    store.dispatch(new IncrementAction());
+    store.dispatch(new IncrementAction());
+    expect(calls).toEqual([[2, 1], [3, 2]]);
+
+    store.dispatch(new SetNameAction('b'));
+    expect(calls).toEqual([[2, 1], [3, 2]]);
+
+    unsubscribe();
+    store.dispatch(new IncrementAction());
+    expect(calls).toEqual([[2, 1], [3, 2]]);
+  });
+
+Bdd(feature)
+  .scenario('A listener can subscribe with an equality function.')
+  .given('A listener subscribed to a new object each time, compared with shallowEqual.')
+  .when('The state changes, but the object content does not.')
+  .then('The listener is not called.')
+  .and('It is called when the object content changes.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1, 'a'), logger: logger,
+    });
+
+    let names: string[] = [];
+    store.subscribeTo(
+      (state: State) => ({name: state.name}),
+      (value) => names.push(value.name),
+      shallowEqual,
+    );
+
+    store.dispatch(new IncrementAction());
+    expect(names).toEqual([]);
+
+    store.dispatch(new SetNameAction('b'));
+    expect(names).toEqual(['b']);
+  });
+
+class State {
+  constructor(readonly count: number, readonly name: string) {
+  }
+
+  toString() {
+    return `State(${this.count}, ${this.name})`;
+  }
+}
+
+class IncrementAction extends KissAction<State> {
+  reduce() {
+    return new State(this.state.count + 1, this.state.name);
+  }
+}
+
+class SetNameAction extends KissAction<State> {
+
+  constructor(readonly name: string) {
+    super();
+  }
+
+  reduce() {
+    return new State(this.state.count, this.name);
+  }
+}
@@ -0,0 +1,192 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { KissAction, Store, UserException } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Throttle');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1).count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('A throttled action does not run again while fresh.')
+  .given('An action with a throttle of 100 millis.')
+  .when('The action is dispatched twice in a row.')
+  .then('Only the first one runs.')
+  .and('The second one is aborted.')
+  .and('After the throttle period, it runs again.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let status1 = await store.dispatchAndWait(new IncrementAction());
+    expect(store.state.count).toBe(2);
+    expect(status1.isAborted).toBe(false);
+
+    // Also try dispatch and dispatchSync.
+    let status2 = await store.dispatchAndWait(new IncrementAction());
+    let action3 = new IncrementAction();
+    store.dispatch(action3);
+    store.dispatchSync(new IncrementAction());
+    expect(store.state.count).toBe(2);
+    expect(status2.isAborted).toBe(true);
+    expect(status2.isDispatched).toBe(false);
+    expect(action3.status.isAborted).toBe(true);
+
+    await delayMillis(110);
+    store.dispatch(new IncrementAction());
+    expect(store.state.count).toBe(3);
+  });
+
+Bdd(feature)
+  .scenario('A throttled action with ignoreFresh runs even if fresh.')
+  .given('An action with a throttle of 100 millis.')
+  .when('The action is dispatched, and then dispatched again with ignoreFresh.')
+  .then('Both run.')
+  .and('The throttle period restarts.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new IncrementAction());
+    store.dispatch(new IncrementAction(true));
+    expect(store.state.count).toBe(3);
+
+    store.dispatch(new IncrementAction());
+    expect(store.state.count).toBe(3);
+  });
+
+Bdd(feature)
+  .scenario('A throttled action that fails is not fresh.')
+  .given('An action with a throttle of 100 millis.')
+  .when('The action fails.')
+  .then('It can be dispatched again right away.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let status1 = await store.dispatchAndWait(new FailingIncrementAction(true));
+    expect(status1.isCompletedFailed).toBe(true);
+    expect(store.state.count).toBe(1);
+
+    let status2 = await store.dispatchAndWait(new FailingIncrementAction(false));
+    expect(status2.isCompletedOk).toBe(true);
+    expect(store.state.count).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('Throttle uses the lock key.')
+  .given('An action with a throttle, that overrides the lock key.')
+  .when('Actions with different lock keys are dispatched in a row.')
+  .then('They all run.')
+  .and('Actions with the same lock key are throttled.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new IncrementWithKeyAction('A'));
+    store.dispatch(new IncrementWithKeyAction('B'));
+    store.dispatch(new IncrementWithKeyAction('A'));
+    expect(store.state.count).toBe(3);
+  });
+
+Bdd(feature)
+  .scenario('A throttled action dropped by concurrency does not lock the throttle.')
+  .given('A throttled action with concurrency drop, that is running and will fail.')
+  .when('The action is dispatched again with ignoreFresh, and is dropped.')
+  .and('The running action fails, releasing the lock.')
+  .then('The action runs when dispatched again.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new DroppedIncrementAction(true));
+
+    let status = await store.dispatchAndWait(new DroppedIncrementAction(false, true));
+    expect(status.isAborted).toBe(true);
+
+    await store.waitAllActions([]);
+    expect(store.state.count).toBe(1);
+
+    await store.dispatchAndWait(new DroppedIncrementAction(false));
+    expect(store.state.count).toBe(2);
+  });
+
+class State {
+  constructor(readonly count: number) {
+  }
+
+  toString() {
+    return `State(${this.count})`;
+  }
+}
+
+class IncrementAction extends KissAction<State> {
+
+  constructor(ignoreFresh: boolean = false) {
+    super();
+    this.ignoreFresh = ignoreFresh;
+  }
+
+  throttle = 100;
+
+  reduce() {
+    return new State(this.state.count + 1);
+  }
+}
+
+class FailingIncrementAction extends KissAction<State> {
+
+  constructor(readonly fail: boolean) {
+    super();
+  }
+
+  throttle = 100;
+
+  async reduce() {
+    await delayMillis(1);
+    if (this.fail) throw new UserException('Failed');
+    return (state: State) => new State(state.count + 1);
+  }
+}
+
+class DroppedIncrementAction extends FailingIncrementAction {
+
+  constructor(fail: boolean, ignoreFresh: boolean = false) {
+    super(fail);
+    this.ignoreFresh = ignoreFresh;
+  }
+
+  concurrency = 'drop' as const;
+}
+
+class IncrementWithKeyAction extends KissAction<State> {
+
+  constructor(readonly key: string) {
+    super();
+  }
+
+  throttle = 100;
+
+  lockKey() {
+    return this.key;
+  }
+
+  reduce() {
+    return new State(this.state.count + 1);
+  }
+}
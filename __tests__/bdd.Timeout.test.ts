@@ -0,0 +1,175 @@
+import { expect } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { KissAction, Store, TimeoutException, UserException } from '../src';
+import { delayMillis } from '../src/utils';
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Timeout');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1).count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('An action that takes too long fails with a UserException caused by a TimeoutException.')
+  .given('An ASYNC action with a timeout of 20 millis.')
+  .and('The reducer takes 100 millis to finish.')
+  .when('The action is dispatched.')
+  .then('It fails after 20 millis with a UserException, whose hardCause is a TimeoutException.')
+  .and('The error goes through wrapError and the errorObserver.')
+  .and('It is not waiting anymore.')
+  .and('Its signal is aborted, and its late result is discarded.')
+  .run(async (_) => {
+
+    let errorInErrorObserver: any;
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+      errorObserver: (error: any) => {
+        errorInErrorObserver = error;
+        return false;
+      },
+    });
+
+    let action = new SlowAction(100, 20);
+    let start = Date.now();
+    let status = await store.dispatchAndWait(action);
+
+    expect(Date.now() - start).toBeLessThan(90);
+    expect(status.isCompletedFailed).toBe(true);
+    expect(status.originalError).toBeInstanceOf(UserException);
+    expect(status.originalError.hardCause).toBeInstanceOf(TimeoutException);
+    expect(action.wrapErrorWasCalled).toBe(true);
+    expect(errorInErrorObserver).toBe(status.originalError);
+    expect(store.isWaiting(SlowAction)).toBe(false);
+    expect(action.signal.aborted).toBe(true);
+
+    await delayMillis(100);
+    expect(store.state.count).toBe(1);
+  });
+
+Bdd(feature)
+  .scenario('An action that finishes in time is not affected by the timeout.')
+  .given('An ASYNC action with a timeout of 100 millis.')
+  .and('The reducer takes 10 millis to finish.')
+  .when('The action is dispatched.')
+  .then('It changes the state normally.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let status = await store.dispatchAndWait(new SlowAction(10, 100));
+    expect(status.isCompletedOk).toBe(true);
+    expect(store.state.count).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('The timeout includes the async before method.')
+  .given('An action with a timeout of 30 millis.')
+  .and('Its async before method takes 20 millis, and its reducer takes another 20 millis.')
+  .when('The action is dispatched.')
+  .then('It fails with a timeout.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    let status = await store.dispatchAndWait(new SlowBeforeAction());
+    expect(status.isCompletedFailed).toBe(true);
+    expect(status.originalError).toEqual(new UserException('Too slow.'));
+    expect(store.state.count).toBe(1);
+  });
+
+Bdd(feature)
+  .scenario('The timeout error can be a UserException.')
+  .given('An ASYNC action with a timeout, that overrides the timeout error to return a UserException.')
+  .when('The action is dispatched and times out.')
+  .then('It fails with that UserException.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    expect(store.isFailed(SlowBeforeAction)).toBe(false);
+
+    await store.dispatchAndWait(new SlowBeforeAction());
+    expect(store.exceptionFor(SlowBeforeAction)).toEqual(new UserException('Too slow.'));
+  });
+
+Bdd(feature)
+  .scenario('Without an errorObserver, the default timeout error is shown to the user.')
+  .given('An ASYNC action with a timeout of 20 millis, and the default timeoutError.')
+  .and('A store without an errorObserver.')
+  .when('The action times out.')
+  .then('The action fails, and the error is shown to the user.')
+  .and('The error is not rethrown, so there is no unhandled Promise rejection.')
+  .run(async (_) => {
+
+    let shownErrors: UserException[] = [];
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+      showUserException: (exception: UserException) => shownErrors.push(exception),
+    });
+
+    let action = new SlowAction(100, 20);
+    let status = await store.dispatchAndWait(action);
+
+    expect(status.isCompletedFailed).toBe(true);
+    expect(shownErrors).toEqual([status.wrappedError]);
+    expect(shownErrors[0].hardCause).toBeInstanceOf(TimeoutException);
+
+    await delayMillis(100);
+    expect(store.state.count).toBe(1);
+  });
+
+class State {
+  constructor(readonly count: number) {
+  }
+
+  toString() {
+    return `State(${this.count})`;
+  }
+}
+
+class SlowAction extends KissAction<State> {
+
+  wrapErrorWasCalled = false;
+
+  constructor(readonly delay: number, readonly timeoutMillis: number) {
+    super();
+  }
+
+  async reduce() {
+    await delayMillis(this.delay);
+    return (state: State) => new State(state.count + 1);
+  }
+
+  wrapError(error: any) {
+    this.wrapErrorWasCalled = true;
+    return error;
+  }
+}
+
+class SlowBeforeAction extends KissAction<State> {
+
+  timeoutMillis = 30;
+
+  async before() {
+    await delayMillis(20);
+  }
+
+  async reduce() {
+    await delayMillis(20);
+    return (state: State) => new State(state.count + 1);
+  }
+
+  timeoutError() {
+    return new UserException('Too slow.');
+  }
+}
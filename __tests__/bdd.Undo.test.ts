@@ -0,0 +1,213 @@
+import { expect, test } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { KissAction, Store } from '../src';
+import { delayMillis } from "../src/utils";
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Undo and redo');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State(1).count).toBe(1);
+});
+
+Bdd(feature)
+  .scenario('Undoable actions can be undone and redone.')
+  .given('An undoable action.')
+  .when('It is dispatched twice, and then undone twice.')
+  .then('The state goes back to the initial state.')
+  .and('It can be redone, step by step.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    expect(store.canUndo).toBe(false);
+    expect(store.undo()).toBe(false);
+
+    store.dispatch(new IncrementAction());
+    store.dispatch(new IncrementAction());
+    expect(store.state.count).toBe(3);
+    expect(store.canUndo).toBe(true);
+
+    expect(store.undo()).toBe(true);
+    expect(store.state.count).toBe(2);
+    expect(store.undo()).toBe(true);
+    expect(store.state.count).toBe(1);
+    expect(store.canUndo).toBe(false);
+    expect(store.canRedo).toBe(true);
+
+    expect(store.redo()).toBe(true);
+    expect(store.state.count).toBe(2);
+    expect(store.redo()).toBe(true);
+    expect(store.state.count).toBe(3);
+    expect(store.canRedo).toBe(false);
+    expect(store.redo()).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('Actions that are not undoable are not recorded.')
+  .given('An action that is not undoable.')
+  .when('It is dispatched.')
+  .then('There is nothing to undo.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new SetAction(10));
+    expect(store.canUndo).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('A new undoable action clears the redo history.')
+  .given('An undoable action that was undone.')
+  .when('Another undoable action is dispatched.')
+  .then('It can not be redone anymore.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new IncrementAction());
+    store.undo();
+    expect(store.canRedo).toBe(true);
+
+    store.dispatch(new IncrementAction());
+    expect(store.canRedo).toBe(false);
+    expect(store.state.count).toBe(2);
+  });
+
+Bdd(feature)
+  .scenario('The undo history is bounded.')
+  .given('A store with maxUndoSteps 2.')
+  .when('An undoable action is dispatched 3 times.')
+  .then('Only the last 2 steps can be undone.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger, maxUndoSteps: 2,
+    });
+
+    store.dispatch(new IncrementAction());
+    store.dispatch(new IncrementAction());
+    store.dispatch(new IncrementAction());
+    expect(store.state.count).toBe(4);
+
+    store.undo();
+    store.undo();
+    expect(store.state.count).toBe(2);
+    expect(store.undo()).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('Several actions can be undone in a single step with a transaction.')
+  .given('Undoable sync and async actions.')
+  .when('They are dispatched inside an undo transaction.')
+  .then('They are undone together.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new IncrementAction());
+
+    await store.undoTransaction(async () => {
+      store.dispatch(new IncrementAction());
+      await store.dispatchAndWait(new IncrementAsyncAction());
+      store.dispatch(new IncrementAction());
+    });
+    expect(store.state.count).toBe(5);
+
+    // Sync transaction.
+    let result = store.undoTransaction(() => {
+      store.dispatch(new IncrementAction());
+      store.dispatch(new IncrementAction());
+      return 'done';
+    });
+    expect(result).toBe('done');
+    expect(store.state.count).toBe(7);
+
+    store.undo();
+    expect(store.state.count).toBe(5);
+    store.undo();
+    expect(store.state.count).toBe(2);
+    store.undo();
+    expect(store.state.count).toBe(1);
+
+    store.redo();
+    store.redo();
+    expect(store.state.count).toBe(5);
+
+    store.clearUndoHistory();
+    expect(store.canUndo).toBe(false);
+    expect(store.canRedo).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('The undo history does not change if the state can not be restored.')
+  .given('An undoable action that was dispatched.')
+  .when('The store is shut down, and the action is undone.')
+  .then('Undo returns false, and both the state and the undo history stay the same.')
+  .and('After the store is back, it can be undone.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(1), logger: logger,
+    });
+
+    store.dispatch(new IncrementAction());
+
+    store.setShutDown(true);
+    expect(store.undo()).toBe(false);
+    expect(store.state.count).toBe(2);
+    expect(store.canUndo).toBe(true);
+    expect(store.canRedo).toBe(false);
+
+    store.setShutDown(false);
+    expect(store.undo()).toBe(true);
+    expect(store.state.count).toBe(1);
+    expect(store.canRedo).toBe(true);
+  });
+
+class State {
+  constructor(readonly count: number) {
+  }
+
+  toString() {
+    return `State(${this.count})`;
+  }
+}
+
+class IncrementAction extends KissAction<State> {
+  undoable = true;
+
+  reduce() {
+    return new State(this.state.count + 1);
+  }
+}
+
+class IncrementAsyncAction extends KissAction<State> {
+  undoable = true;
+
+  async reduce() {
+    await delayMillis(10);
+    return (state: State) => new State(state.count + 1);
+  }
+}
+
+class SetAction extends KissAction<State> {
+
+  constructor(readonly value: number) {
+    super();
+  }
+
+  reduce() {
+    return new State(this.value);
+  }
+}
@@ -0,0 +1,176 @@
+import { expect } from '@jest/globals';
+import { Bdd, Feature, FeatureFileReporter, reporter } from 'easy-bdd-tool-jest';
+import { ClassPersistor, KissAction, Store, Wait, WaitAction } from '../src';
+import { delayMillis } from '../src/utils';
+
+reporter(new FeatureFileReporter());
+
+const feature = new Feature('Wait');
+const logger = (obj: any) => process.stdout.write(obj + '\n');
+
+test('Test fixture', async () => {
+  expect(new State().wait.isWaiting()).toBe(false);
+});
+
+Bdd(feature)
+  .scenario('Wait is immutable, and keeps track of flags and references.')
+  .given('An empty Wait.')
+  .when('Flags with and without references are added and removed.')
+  .then('We can check if it is waiting for each flag and reference.')
+  .and('The original Wait does not change.')
+  .run(async (_) => {
+
+    const wait = new Wait();
+    expect(wait.isWaiting()).toBe(false);
+
+    const wait1 = wait.add('checkout');
+    expect(wait.isWaiting()).toBe(false);
+    expect(wait1.isWaiting()).toBe(true);
+    expect(wait1.isWaitingFor('checkout')).toBe(true);
+    expect(wait1.isWaitingFor('other')).toBe(false);
+
+    const wait2 = wait1.add('likePost', 17).add('likePost', 18);
+    expect(wait2.isWaitingFor('likePost')).toBe(true);
+    expect(wait2.isWaitingFor('likePost', 17)).toBe(true);
+    expect(wait2.isWaitingFor('likePost', 19)).toBe(false);
+
+    const wait3 = wait2.remove('likePost', 17);
+    expect(wait2.isWaitingFor('likePost', 17)).toBe(true);
+    expect(wait3.isWaitingFor('likePost', 17)).toBe(false);
+    expect(wait3.isWaitingFor('likePost', 18)).toBe(true);
+
+    const wait4 = wait3.clear('likePost');
+    expect(wait4.isWaitingFor('likePost')).toBe(false);
+    expect(wait4.isWaitingFor('checkout')).toBe(true);
+
+    expect(wait4.clear().isWaiting()).toBe(false);
+    expect(wait4.remove('checkout').isWaiting()).toBe(false);
+
+    // Wait.ALL can be used as a reference.
+    const wait5 = wait.add('appointment', Wait.ALL);
+    expect(wait5.isWaitingFor('appointment', Wait.ALL)).toBe(true);
+    expect(wait5.isWaitingFor('appointment', '10:00')).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('Checking if it is waiting for a flag of a given type.')
+  .given('An action that adds itself as a flag in its before method, and removes it in its after method.')
+  .when('The action is dispatched.')
+  .then('The wait is waiting for that action type, while the action is running.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(), logger: logger,
+    });
+
+    let promise = store.dispatchAndWait(new LoadUser());
+    expect(store.state.wait.isWaitingForType(LoadUser)).toBe(true);
+    expect(store.state.wait.isWaitingForType(OtherAction)).toBe(false);
+
+    await promise;
+    expect(store.state.wait.isWaitingForType(LoadUser)).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('The WaitAction adds and removes flags from the state.')
+  .given('A state with a Wait field named wait.')
+  .when('We dispatch WaitActions to add, remove and clear flags.')
+  .then('The flags are added and removed from the state.')
+  .and('Flags can be added and removed with a delay.')
+  .run(async (_) => {
+
+    let store = new Store<State>({
+      initialState: new State(), logger: logger,
+    });
+
+    store.dispatch(WaitAction.add('checkout'));
+    expect(store.state.wait.isWaitingFor('checkout')).toBe(true);
+
+    store.dispatch(WaitAction.remove('checkout'));
+    expect(store.state.wait.isWaitingFor('checkout')).toBe(false);
+
+    store.dispatch(WaitAction.add('likePost', 17));
+    store.dispatch(WaitAction.add('likePost', 18));
+    expect(store.state.wait.isWaitingFor('likePost', 17)).toBe(true);
+
+    store.dispatch(WaitAction.clear('likePost'));
+    expect(store.state.wait.isWaiting()).toBe(false);
+
+    // With a delay.
+    store.dispatch(WaitAction.add('checkout', null, 20));
+    expect(store.state.wait.isWaitingFor('checkout')).toBe(false);
+    await delayMillis(50);
+    expect(store.state.wait.isWaitingFor('checkout')).toBe(true);
+
+    await store.dispatchAndWait(WaitAction.remove('checkout', null, 10));
+    expect(store.state.wait.isWaitingFor('checkout')).toBe(false);
+  });
+
+Bdd(feature)
+  .scenario('A Wait is persisted as an empty Wait.')
+  .given('A state with a Wait that is waiting for some flags.')
+  .when('The state is persisted with the ClassPersistor, and then read back.')
+  .then('The rest of the state is read back.')
+  .and('The Wait is read back empty, since the processes are not running anymore.')
+  .run(async (_) => {
+
+    let saved: string | null = null;
+
+    const persistor = new ClassPersistor<State>(
+      async () => saved,
+      async (serialized) => {
+        saved = serialized;
+      },
+      async () => {
+        saved = null;
+      },
+      [State],
+    );
+
+    const state = new State(new Wait().add('checkout').add(new LoadUser(), 17), 'Mary');
+    await persistor.saveInitialState(state);
+    expect(saved).not.toContain('checkout');
+
+    const readState = await persistor.readState();
+    expect(readState).toBeInstanceOf(State);
+    expect(readState!.name).toBe('Mary');
+    expect(readState!.wait).toBeInstanceOf(Wait);
+    expect(readState!.wait.isWaiting()).toBe(false);
+
+    // The Wait that was read back still works.
+    expect(readState!.wait.add('checkout').isWaitingFor('checkout')).toBe(true);
+  });
+
+class State {
+  constructor(
+    readonly wait: Wait = new Wait(),
+    readonly name: string = '',
+  ) {
+  }
+
+  copy({wait, name}: { wait?: Wait, name?: string }): State {
+    return new State(wait ?? this.wait, name ?? this.name);
+  }
+}
+
+class LoadUser extends KissAction<State> {
+
+  before() {
+    this.dispatch(WaitAction.add(this));
+  }
+
+  async reduce() {
+    await delayMillis(10);
+    return null;
+  }
+
+  after() {
+    this.dispatch(WaitAction.remove(this));
+  }
+}
+
+class OtherAction extends KissAction<State> {
+  reduce() {
+    return null;
+  }
+}
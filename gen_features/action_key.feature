@@ -0,0 +1,14 @@
+Feature: Action key
+
+  Scenario: Checking if an action with a specific key is waiting.
+    Given An ASYNC action that defines an action key.
+    When Two actions with different keys are dispatched.
+    Then We can check if the action is waiting for each key.
+    And We can still check if the action type is waiting, for any key.
+
+  Scenario: Checking if an action with a specific key has failed.
+    Given An ASYNC action that defines an action key.
+    When Actions with different keys fail.
+    Then We can check if the action failed, and get its exception, for each key.
+    And Dispatching the action again only clears the failure for its own key.
+    And We can clear the failure for a specific key, or for all keys.
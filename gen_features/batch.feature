@@ -0,0 +1,19 @@
+Feature: Batch
+
+  Scenario: State changes inside a batch are notified only once.
+    Given A store with a state-observer and a persistor.
+    When Three actions are dispatched inside a batch.
+    Then The state changes are applied right away.
+    And The subscribers and the state-observer are called only once, when the batch ends.
+    And The final state is persisted only once.
+
+  Scenario: Batches can be nested, and can be async.
+    Given An async batch, with a nested batch inside it.
+    When Sync and async actions are dispatched inside them.
+    Then The subscribers and the state-observer are called only once, when the outer batch ends.
+
+  Scenario: A batch that does not change the state is not notified.
+    Given A batch that throws an error, without changing the state.
+    When The batch runs.
+    Then The error is thrown, and the state-observer is not called.
+    And Later batches still work.
@@ -0,0 +1,24 @@
+Feature: Cancel
+
+  Scenario: A cancelled action does not change the state.
+    Given An ASYNC action that takes some time to finish.
+    When The action is dispatched, and then cancelled before it finishes.
+    Then Its signal is aborted.
+    And It is not waiting anymore.
+    And Its result is discarded, and it finishes as cancelled.
+
+  Scenario: A stale response does not overwrite a newer one.
+    Given An ASYNC action that takes some time to finish.
+    When The action is dispatched, and then all actions of the same type are cancelled.
+    And A new action of the same type is dispatched, and finishes before the first one.
+    Then The state is changed only by the new action.
+
+  Scenario: Errors thrown after the action is cancelled are ignored.
+    Given An ASYNC action that throws an error when its signal is aborted.
+    When The action is dispatched, and then cancelled.
+    Then The error is ignored, and the action is not considered failed.
+
+  Scenario: Cancelling only the actions with a specific key.
+    Given An ASYNC action that defines an action key.
+    When Actions with different keys are dispatched, and then the ones with one of the keys are cancelled.
+    Then Only the actions with that key are cancelled.
@@ -0,0 +1,30 @@
+Feature: Concurrency
+
+  Scenario: Actions with concurrency queue run one after the other.
+    Given An ASYNC action with concurrency queue.
+    When The action is dispatched 3 times in a row.
+    Then Each one only starts after the previous one finished.
+    And They change the state in the order they were dispatched.
+
+  Scenario: Actions with concurrency latest cancel the older ones.
+    Given An ASYNC action with concurrency latest.
+    When The action is dispatched 3 times in a row.
+    Then The older ones are cancelled.
+    And Only the latest one changes the state, even if it finishes first.
+
+  Scenario: Actions with concurrency drop are aborted while another one is running.
+    Given An ASYNC action with concurrency drop.
+    When The action is dispatched 3 times in a row.
+    Then Only the first one runs.
+    And The other ones are aborted.
+
+  Scenario: Concurrency uses the non-reentrant key params.
+    Given An ASYNC action with concurrency queue, that defines its non-reentrant key params.
+    When Actions with different key params are dispatched.
+    Then Actions with different key params run at the same time.
+    And Actions with the same key params are queued.
+
+  Scenario: A queued action can be cancelled.
+    Given An ASYNC action with concurrency queue.
+    When The action is dispatched twice, and the second one is cancelled while in the queue.
+    Then The second one never runs.
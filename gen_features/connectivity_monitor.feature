@@ -0,0 +1,29 @@
+Feature: Connectivity monitor
+
+  Scenario: Actions that check the internet use the connectivity monitor.
+    Given A store with a connectivity monitor that says there is no internet.
+    When An action with checkInternet is dispatched.
+    Then It fails with a UserException.
+    And When the monitor says there is internet, the action runs.
+
+  Scenario: The store keeps the connection status of the connectivity monitor.
+    Given A store with a connectivity monitor.
+    When The connection status changes.
+    Then The store isOnline changes too.
+
+  Scenario: The default connectivity monitor says it is connected outside the browser.
+    Given A store created without a connectivity monitor.
+    When Not running in a web environment.
+    Then The store uses the browser connectivity monitor, which says it is connected.
+
+  Scenario: A store that is shut down stops listening to the connectivity monitor.
+    Given A store with a connectivity monitor.
+    When The store is shut down, and the connection status changes.
+    Then The store isOnline does not change.
+    And When the store restarts, it reads the connection status again.
+
+  Scenario: The store only listens to the connectivity monitor when needed.
+    Given A store with a connectivity monitor.
+    When Neither isOnline nor the offline queue are used.
+    Then The store does not subscribe to the monitor.
+    And It subscribes once isOnline is read.
@@ -0,0 +1,23 @@
+Feature: Debounce
+
+  Scenario: Only the last of rapidly dispatched debounced actions runs its reducer.
+    Given An action with a debounce of 50 millis.
+    When The action is dispatched 3 times in a row, with less than 50 millis between them.
+    Then Only the last one changes the state.
+    And The other ones finish as aborted, not as failed.
+
+  Scenario: Debounced actions that are far apart all run.
+    Given An action with a debounce of 50 millis.
+    When The action is dispatched twice, with more than 50 millis between them.
+    Then Both change the state.
+
+  Scenario: Debounce uses the lock key.
+    Given An action with a debounce, that overrides the lock key.
+    When Actions with different lock keys are dispatched in a row.
+    Then They don't supersede each other.
+
+  Scenario: A debounced action can not be dispatched with dispatchSync.
+    Given A SYNC action with a debounce of 50 millis.
+    When The action is dispatched with dispatchSync.
+    Then It throws a StoreException, since debounced actions are ASYNC.
+    And The reducer does not run, even after the debounce period.
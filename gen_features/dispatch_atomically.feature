@@ -0,0 +1,28 @@
+Feature: Dispatch atomically
+
+  Scenario: A group of actions that succeeds keeps all its state changes.
+    Given Sync and async actions that change the state.
+    When They are dispatched atomically, and all succeed.
+    Then They run in order, and all state changes are kept.
+    And They are not rolled back.
+
+  Scenario: A group of actions with a failure is rolled back.
+    Given Three actions, where the second one fails.
+    When They are dispatched atomically.
+    Then The state is restored to what it was before the group started.
+    And The Promise rejects with an AtomicDispatchException that contains the error.
+    And The dispatched actions are rolled back, and the third one is not dispatched.
+
+  Scenario: A group of actions with an aborted action is rolled back.
+    Given Two actions, where the second one is aborted because it is still fresh.
+    When They are dispatched atomically.
+    Then The state is restored to what it was before the group started.
+    And The Promise rejects with an AtomicDispatchException.
+    And The dispatched action is rolled back.
+
+  Scenario: A group of actions that cannot be rolled back is not marked as rolled back.
+    Given Two actions, where the second one shuts down the store and then fails.
+    When They are dispatched atomically.
+    Then The state cannot be restored.
+    And The Promise rejects with an AtomicDispatchException that says it was not rolled back.
+    And The dispatched actions are not marked as rolled back.
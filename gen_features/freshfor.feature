@@ -0,0 +1,41 @@
+Feature: FreshFor
+
+  Scenario: An action does not run again while it is running or fresh.
+    Given An async action with freshFor 100 millis.
+    When The action is dispatched twice in a row.
+    Then Only the first one runs.
+    And While fresh, it does not run again.
+    And After the freshness period, it runs again.
+
+  Scenario: Freshness is kept separately for each action key.
+    Given An action with freshFor, that overrides actionKey.
+    When Actions with different keys are dispatched in a row.
+    Then They all run.
+    And Actions with the same key do not.
+
+  Scenario: An action that fails is not fresh.
+    Given An action with freshFor.
+    When The action fails.
+    Then It can be dispatched again right away.
+
+  Scenario: Freshness can be ignored with force, or invalidated.
+    Given An action with freshFor, that is still fresh.
+    When The action is dispatched with force.
+    Then It runs.
+    And After the freshness is invalidated, it runs again.
+
+  Scenario: A forced action dropped by concurrency does not change the freshness.
+    Given An action with freshFor and concurrency drop, that is running.
+    When The action is dispatched again with force, and is dropped.
+    Then It is marked as aborted.
+    And After the freshness period of the first action, it runs again.
+
+  Scenario: A queued action that is cancelled is not fresh.
+    Given An action with freshFor and concurrency queue, waiting in the queue.
+    When The queued action is cancelled.
+    Then An action with the same key runs when dispatched again.
+
+  Scenario: A queued action that never runs is not fresh.
+    Given An action with freshFor and concurrency queue, waiting in the queue.
+    When The store is shut down, so that the queued action never runs.
+    Then After the store restarts, an action with the same key runs when dispatched.
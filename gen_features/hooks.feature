@@ -0,0 +1,53 @@
+Feature: Hooks
+
+  Scenario: The store notifies its subscribers.
+    Given A listener subscribed to the store.
+    When The state changes.
+    Then The listener is called.
+    And After unsubscribing, it is not called anymore.
+
+  Scenario: A component rebuilds when the selected part of the state changes.
+    Given A component that selects the count.
+    When The count changes, and then only the name changes.
+    Then The component rebuilds with the new count.
+    And It does not rebuild when only the name changes.
+
+  Scenario: A state change between the render and the subscription is not missed.
+    Given A component that selects the count.
+    And A sibling that changes the count right after the first render.
+    When Both are rendered.
+    Then The component shows the new count.
+
+  Scenario: A selector that changes between renders is not stale.
+    Given A component whose selector uses a prop.
+    When The component rebuilds with a different prop.
+    Then The value is selected with the new selector.
+    And Later state changes also use the new selector.
+
+  Scenario: A component does not rebuild when the equality function says the value is equal.
+    Given A component that selects a new object each time, compared with shallowEqual.
+    When The state changes, but the object content does not.
+    Then The component does not rebuild.
+
+  Scenario: Components rebuild when store values change.
+    Given A component that uses useIsWaiting.
+    When An async action is dispatched, and then finishes.
+    Then The component shows it is waiting, and then that it is not.
+
+  Scenario: Components rebuild when the retry state changes.
+    Given A component that uses useRetryState.
+    When An action fails, retries, and then succeeds.
+    Then The component shows the retry attempt while retrying.
+    And It shows nothing once the action finishes.
+
+  Scenario: A separate store context can be nested inside the app store provider.
+    Given An app store, and a feature store with its own context.
+    When A component uses the hooks of both contexts.
+    Then Each hook uses its own store.
+    And Dispatching to one store does not change the other.
+
+  Scenario: Hooks can be typed with the state.
+    Given Hooks created with createHooks for the app state.
+    When A component uses them.
+    Then They use the store of the default provider.
+    And Dispatching an action of some other state type is a compile error.
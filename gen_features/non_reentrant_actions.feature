@@ -20,3 +20,16 @@ Feature: Non reentrant actions
     When The action is dispatched.
     And Another action of the same type is dispatched before the previous one finished.
     Then It runs only once.
+
+  Scenario: Non-reentrant action with key params only blocks actions with the same params.
+    Given An ASYNC non-reentrant action that takes some time to finish.
+    And The action defines its non-reentrant key params.
+    When Two actions with different params are dispatched at the same time.
+    And Another action with the same params as the first one is dispatched.
+    Then The actions with different params both run.
+    And The action with the same params is aborted.
+
+  Scenario: Non-reentrant actions are also aborted with dispatchAndWait and dispatchSync.
+    Given A non-reentrant action that is still running.
+    When An action of the same type is dispatched with dispatchAndWait or dispatchSync.
+    Then It is aborted, and marked as aborted.
@@ -0,0 +1,30 @@
+Feature: Offline queue
+
+  Scenario: Actions dispatched while offline run when the connection is back.
+    Given An action with checkInternet option ifOffline: queue.
+    And There is no internet connection.
+    When The action is dispatched twice.
+    Then Both are aborted and queued, and the state does not change.
+    And After the connection is back, both actions are dispatched again, in order.
+
+  Scenario: Replayed actions that still find no connection are queued again.
+    Given An action queued while offline.
+    When The actions are replayed, but there is still no internet connection.
+    Then The action is queued again.
+
+  Scenario: Pending offline actions can be cleared.
+    Given Actions of different types queued while offline.
+    When The actions of one type are cleared.
+    Then They are not dispatched when the connection is back.
+
+  Scenario: The offline queue survives app restarts through the Persistor.
+    Given A persistor that saves the offline actions.
+    And An action queued while offline.
+    When The app restarts with an internet connection.
+    Then The action is read from the persistor and dispatched.
+
+  Scenario: The ClassPersistor can save the offline queue.
+    Given A ClassPersistor that saves the offline actions.
+    And An action queued while offline.
+    When The app restarts with an internet connection.
+    Then The action is deserialized and dispatched.
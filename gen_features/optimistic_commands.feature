@@ -0,0 +1,29 @@
+Feature: Optimistic commands
+
+  Scenario: An optimistic command changes several parts of the state right away.
+    Given A command that changes the liked flag and the likes count.
+    When The command is dispatched, and the save succeeds.
+    Then Both parts are changed before the save finishes.
+    And They are kept after the save finishes.
+    And The entity is pending sync only while saving.
+
+  Scenario: A failed command rolls back only the parts nobody else changed.
+    Given A command that changes the liked flag and the likes count.
+    When The save fails, after some other action changed the likes count.
+    Then The action fails with the error.
+    And The liked flag is rolled back, but the likes count is not.
+
+  Scenario: Commands against the same entity are saved in order.
+    Given Like, unlike and like commands against the same post.
+    When They are dispatched in a quick sequence.
+    Then They are saved one after the other, in order.
+
+  Scenario: A like, unlike, like sequence resolves correctly when saves fail.
+    Given Like, unlike and like commands against the same post.
+    When Some of the saves fail.
+    Then The state ends with the value of the last successful command.
+
+  Scenario: Commands against different entities are saved independently.
+    Given Two commands without an entity key.
+    When They are dispatched in a quick sequence.
+    Then The second one is saved without waiting for the first.
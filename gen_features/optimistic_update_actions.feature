@@ -0,0 +1,26 @@
+Feature: Optimistic update actions
+
+  Scenario: The value is applied right away, and is pending sync until saved.
+    Given An optimistic update with an entity key.
+    When It is dispatched, and the save succeeds.
+    Then The value is applied before the save finishes.
+    And The entity is pending sync only while saving.
+
+  Scenario: When the save fails, the value is rolled back and the action fails.
+    Given An optimistic update.
+    When The save fails.
+    Then The value is rolled back.
+    And The action fails with the save error, so that the user is informed.
+    And The entity is not pending sync anymore.
+
+  Scenario: When the reloaded value is not the saved one, onConflict decides the value.
+    Given An optimistic update that implements onConflict.
+    When The save succeeds, but the reloaded value is different.
+    Then onConflict gets the saved, reloaded and current values.
+    And The value it returns is applied to the state.
+
+  Scenario: When the reload fails, the saved value is kept and the action succeeds.
+    Given An optimistic update.
+    When The save succeeds, but the reload fails.
+    Then The saved value is not rolled back.
+    And The action does not fail.
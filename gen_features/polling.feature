@@ -0,0 +1,24 @@
+Feature: Polling
+
+  Scenario: Polling dispatches the action on an interval, until stopped.
+    Given A sync action.
+    When We start polling it every 20 millis.
+    Then It is dispatched right away, and then on every tick.
+    And After polling is stopped, it is not dispatched anymore.
+
+  Scenario: Polling skips a tick while the previous action is still in progress.
+    Given An async action that takes 50 millis.
+    When We start polling it every 20 millis.
+    Then A new action is only dispatched after the previous one finishes.
+
+  Scenario: Polling pauses while the store is shut down.
+    Given A sync action.
+    When We poll it, while the store is shut down.
+    Then It is not dispatched.
+    And After the store is not shut down anymore, it is dispatched again.
+
+  Scenario: Polling goes on after a tick throws an error.
+    Given An action factory that throws on the first tick.
+    And A sync action that throws an error that is not a UserException, on the second tick.
+    When We start polling every 20 millis.
+    Then The errors are logged, and the following ticks still dispatch the action.
@@ -29,3 +29,42 @@ Feature: Retry action
     Given A SYNC action that retries up to 10 times.
     When The action is dispatched and succeeds the first time.
     Then It cannot be dispatched SYNC anymore.
+
+  Scenario: Action does not retry errors rejected by shouldRetry.
+    Given An action that retries, but not for user exceptions.
+    And The action fails with a user exception.
+    When The action is dispatched.
+    Then It does NOT retry, and fails right away.
+
+  Scenario: The onRetry callback is called for each retry, with exponential delays.
+    Given An action that retries up to 3 times, with an onRetry callback.
+    And The action always fails.
+    When The action is dispatched.
+    Then The onRetry callback is called 3 times.
+    And It gets the error, the attempt number, and the delay, which grows exponentially.
+
+  Scenario: The jitter randomizes the retry delays.
+    Given An action that retries with jitter.
+    And The action always fails.
+    When The action is dispatched.
+    Then The delays are randomized around the exponential delays.
+
+  Scenario: The error can carry a server-suggested retry delay.
+    Given An action that retries.
+    And The action fails with an error that has a retryAfterMillis property.
+    When The action is dispatched.
+    Then The retry uses the suggested delay.
+
+  Scenario: The store publishes the retry state of the retrying action.
+    Given An action that retries up to 3 times.
+    And The action fails the first 2 times.
+    When The action is dispatched.
+    Then While it is retrying, we can get its retry attempt, delay and next retry time.
+    And A new retry state is created for each retry.
+    And When the action finishes, there is no retry state anymore.
+
+  Scenario: The retry state is updated when the retry starts.
+    Given A slow action that fails the first time, and then retries.
+    When The retry is running.
+    Then The retry state says the retry started, with no delay.
+    And When the action finishes, there is no retry state anymore.
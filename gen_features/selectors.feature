@@ -0,0 +1,24 @@
+Feature: Selectors
+
+  Scenario: A memoized selector recomputes only when its inputs change.
+    Given A selector created with createSelector, that filters the todos.
+    When The state changes, but the todos do not.
+    Then The selector returns the same result, without recomputing it.
+    And When the todos change, it recomputes the result.
+
+  Scenario: Memoized selectors can be derived from other selectors.
+    Given A selector that counts the completed todos.
+    And A selector that combines the completed todos with the filter.
+    When Only the filter changes.
+    Then Only the selector that depends on the filter recomputes.
+
+  Scenario: Selected values can be compared with shallowEqual.
+    Given Two arrays or objects with identical items.
+    When They are compared with shallowEqual.
+    Then They are equal.
+    And They are not equal if some item is different, or is equal but not identical.
+
+  Scenario: Selected values can be compared with deepEqual.
+    Given Nested arrays, objects, maps, sets and dates.
+    When They are compared with deepEqual.
+    Then They are equal if they are structurally equal.
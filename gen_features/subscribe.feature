@@ -0,0 +1,14 @@
+Feature: Subscribe
+
+  Scenario: A listener can subscribe to a part of the state.
+    Given A listener subscribed to the count.
+    When The count changes, and then only the name changes.
+    Then The listener is called with the new and previous counts.
+    And It is not called when only the name changes.
+    And After unsubscribing, it is not called anymore.
+
+  Scenario: A listener can subscribe with an equality function.
+    Given A listener subscribed to a new object each time, compared with shallowEqual.
+    When The state changes, but the object content does not.
+    Then The listener is not called.
+    And It is called when the object content changes.
@@ -0,0 +1,31 @@
+Feature: Throttle
+
+  Scenario: A throttled action does not run again while fresh.
+    Given An action with a throttle of 100 millis.
+    When The action is dispatched twice in a row.
+    Then Only the first one runs.
+    And The second one is aborted.
+    And After the throttle period, it runs again.
+
+  Scenario: A throttled action with ignoreFresh runs even if fresh.
+    Given An action with a throttle of 100 millis.
+    When The action is dispatched, and then dispatched again with ignoreFresh.
+    Then Both run.
+    And The throttle period restarts.
+
+  Scenario: A throttled action that fails is not fresh.
+    Given An action with a throttle of 100 millis.
+    When The action fails.
+    Then It can be dispatched again right away.
+
+  Scenario: Throttle uses the lock key.
+    Given An action with a throttle, that overrides the lock key.
+    When Actions with different lock keys are dispatched in a row.
+    Then They all run.
+    And Actions with the same lock key are throttled.
+
+  Scenario: A throttled action dropped by concurrency does not lock the throttle.
+    Given A throttled action with concurrency drop, that is running and will fail.
+    When The action is dispatched again with ignoreFresh, and is dropped.
+    And The running action fails, releasing the lock.
+    Then The action runs when dispatched again.
@@ -0,0 +1,34 @@
+Feature: Timeout
+
+  Scenario: An action that takes too long fails with a UserException caused by a TimeoutException.
+    Given An ASYNC action with a timeout of 20 millis.
+    And The reducer takes 100 millis to finish.
+    When The action is dispatched.
+    Then It fails after 20 millis with a UserException, whose hardCause is a TimeoutException.
+    And The error goes through wrapError and the errorObserver.
+    And It is not waiting anymore.
+    And Its signal is aborted, and its late result is discarded.
+
+  Scenario: An action that finishes in time is not affected by the timeout.
+    Given An ASYNC action with a timeout of 100 millis.
+    And The reducer takes 10 millis to finish.
+    When The action is dispatched.
+    Then It changes the state normally.
+
+  Scenario: The timeout includes the async before method.
+    Given An action with a timeout of 30 millis.
+    And Its async before method takes 20 millis, and its reducer takes another 20 millis.
+    When The action is dispatched.
+    Then It fails with a timeout.
+
+  Scenario: The timeout error can be a UserException.
+    Given An ASYNC action with a timeout, that overrides the timeout error to return a UserException.
+    When The action is dispatched and times out.
+    Then It fails with that UserException.
+
+  Scenario: Without an errorObserver, the default timeout error is shown to the user.
+    Given An ASYNC action with a timeout of 20 millis, and the default timeoutError.
+    And A store without an errorObserver.
+    When The action times out.
+    Then The action fails, and the error is shown to the user.
+    And The error is not rethrown, so there is no unhandled Promise rejection.
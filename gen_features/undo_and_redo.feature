@@ -0,0 +1,33 @@
+Feature: Undo and redo
+
+  Scenario: Undoable actions can be undone and redone.
+    Given An undoable action.
+    When It is dispatched twice, and then undone twice.
+    Then The state goes back to the initial state.
+    And It can be redone, step by step.
+
+  Scenario: Actions that are not undoable are not recorded.
+    Given An action that is not undoable.
+    When It is dispatched.
+    Then There is nothing to undo.
+
+  Scenario: A new undoable action clears the redo history.
+    Given An undoable action that was undone.
+    When Another undoable action is dispatched.
+    Then It can not be redone anymore.
+
+  Scenario: The undo history is bounded.
+    Given A store with maxUndoSteps 2.
+    When An undoable action is dispatched 3 times.
+    Then Only the last 2 steps can be undone.
+
+  Scenario: Several actions can be undone in a single step with a transaction.
+    Given Undoable sync and async actions.
+    When They are dispatched inside an undo transaction.
+    Then They are undone together.
+
+  Scenario: The undo history does not change if the state can not be restored.
+    Given An undoable action that was dispatched.
+    When The store is shut down, and the action is undone.
+    Then Undo returns false, and both the state and the undo history stay the same.
+    And After the store is back, it can be undone.
@@ -0,0 +1,24 @@
+Feature: Wait
+
+  Scenario: Wait is immutable, and keeps track of flags and references.
+    Given An empty Wait.
+    When Flags with and without references are added and removed.
+    Then We can check if it is waiting for each flag and reference.
+    And The original Wait does not change.
+
+  Scenario: Checking if it is waiting for a flag of a given type.
+    Given An action that adds itself as a flag in its before method, and removes it in its after method.
+    When The action is dispatched.
+    Then The wait is waiting for that action type, while the action is running.
+
+  Scenario: The WaitAction adds and removes flags from the state.
+    Given A state with a Wait field named wait.
+    When We dispatch WaitActions to add, remove and clear flags.
+    Then The flags are added and removed from the state.
+    And Flags can be added and removed with a delay.
+
+  Scenario: A Wait is persisted as an empty Wait.
+    Given A state with a Wait that is waiting for some flags.
+    When The state is persisted with the ClassPersistor, and then read back.
+    Then The rest of the state is read back.
+    And The Wait is read back empty, since the processes are not running anymore.
@@ -1,5 +1,7 @@
 import { ClassOrEnum, ESSerializer } from './Esserializer';
 import { Persistor } from './Persistor';
+import { Wait } from './Wait';
+import { KissAction } from './KissAction';
 
 /**
  * Use it like this:
@@ -30,6 +32,22 @@ import { Persistor } from './Persistor';
  *     [State, TodoList, TodoItem, Filter] // All state classes the app uses.
  *   );
  * ```
+ *
+ * To also persist the actions waiting for the internet connection (see `checkInternet` option
+ * `ifOffline: 'queue'`), so that they survive app restarts, pass `offlineActions`:
+ * ```
+ * return new ClassPersistor<State>(
+ *     async () => window.localStorage.getItem('state'),
+ *     async (serialized) => window.localStorage.setItem('state', serialized),
+ *     async () => window.localStorage.clear(),
+ *     [State, TodoList, TodoItem, Filter],
+ *     {
+ *       loadSerialized: async () => window.localStorage.getItem('offlineActions'),
+ *       saveSerialized: async (serialized) => window.localStorage.setItem('offlineActions', serialized),
+ *       classesToSerialize: [AddTodo, RemoveTodo], // All actions that may be queued.
+ *     }
+ *   );
+ * ```
  */
 export class ClassPersistor<St> extends Persistor<St> {
 
@@ -63,8 +81,21 @@ export class ClassPersistor<St> extends Persistor<St> {
      * type `TodoList`.
      * And the class `TodoList` has a property `items` of type `Array<TodoItem>`.
      * Then you have to list all three classes here: `[State, TodoList, TodoItem]`.
+     * The `Wait` class is registered automatically, so you don't need to list it.
+     */
+    public classesToSerialize: Array<ClassOrEnum>,
+    //
+    /**
+     * Optional. Loads and saves the serialized actions waiting for the internet connection.
+     * You HAVE to list in `classesToSerialize` all action classes that may be queued, and any
+     * custom classes of their fields that are not already listed for the state.
+     * If not provided, these actions are not persisted.
      */
-    public classesToSerialize: Array<ClassOrEnum>
+    public offlineActions?: {
+      loadSerialized: () => Promise<string | null>,
+      saveSerialized: (serialized: string) => Promise<void>,
+      classesToSerialize: Array<ClassOrEnum>,
+    }
   ) {
     super();
   }
@@ -83,7 +114,7 @@ export class ClassPersistor<St> extends Persistor<St> {
     const serializedString = await this.loadSerialized();
     if (serializedString === null) return null;
 
-    ESSerializer.registerClasses(this.classesToSerialize);
+    ESSerializer.registerClasses([Wait, ...this.classesToSerialize]);
 
     return ESSerializer.deserialize(serializedString);
   }
@@ -110,5 +141,41 @@ export class ClassPersistor<St> extends Persistor<St> {
     const serializedString = ESSerializer.serialize(newState);
     await this.saveSerialized(serializedString);
   }
+
+  /**
+   * Read the actions saved by `saveOfflineActions`, if `offlineActions` was provided.
+   */
+  async readOfflineActions(): Promise<KissAction<St>[]> {
+    if (this.offlineActions === undefined) return [];
+
+    const serializedString = await this.offlineActions.loadSerialized();
+    if (serializedString === null) return [];
+
+    ESSerializer.registerClasses([Wait, ...this.classesToSerialize, ...this.offlineActions.classesToSerialize]);
+
+    return ESSerializer.deserialize(serializedString);
+  }
+
+  /**
+   * Save the actions waiting for the internet connection, if `offlineActions` was provided.
+   * Fields that start with `_` are not saved, since they are reset before the actions are
+   * dispatched again.
+   */
+  async saveOfflineActions(actions: KissAction<St>[]): Promise<void> {
+    if (this.offlineActions === undefined) return;
+
+    const serializedString = ESSerializer.serialize(actions.map(_withoutInternalFields));
+    await this.offlineActions.saveSerialized(serializedString);
+  }
+}
+
+// Returns a copy of the action with the same class, but without the fields that start with `_`,
+// like the store it was dispatched to.
+function _withoutInternalFields<St>(action: KissAction<St>): KissAction<St> {
+  const copy = Object.create(Object.getPrototypeOf(action));
+  for (const key of Object.keys(action)) {
+    if (!key.startsWith('_')) copy[key] = (action as any)[key];
+  }
+  return copy;
 }
 
@@ -0,0 +1,113 @@
+/**
+ * Tells the store if the device is connected to the internet, and notifies it when the
+ * connection status changes. All `checkInternet` checks, and the `useIsOnline()` hook, use it.
+ * If you don't provide one, the store uses the `ConnectivityMonitorBrowser`. Otherwise, pass it
+ * to the store constructor:
+ *
+ * ```ts
+ * const store = createStore<State>({
+ *   initialState: new State(),
+ *   connectivityMonitor: myConnectivityMonitor,
+ * });
+ * ```
+ *
+ * When the connection comes back, the store dispatches again the actions that were queued
+ * because there was no internet (see `checkInternet` option `ifOffline: 'queue'`).
+ *
+ * For example, in React Native you could implement it with the NetInfo package:
+ *
+ * ```ts
+ * class NetInfoConnectivityMonitor implements ConnectivityMonitor {
+ *   isConnected() {
+ *     return NetInfo.fetch().then(state => !!state.isConnected);
+ *   }
+ *   subscribe(listener: (isConnected: boolean) => void) {
+ *     return NetInfo.addEventListener(state => listener(!!state.isConnected));
+ *   }
+ * }
+ * ```
+ */
+export interface ConnectivityMonitor {
+
+  /**
+   * Returns a Promise that resolves to true if the device is connected to the internet.
+   */
+  isConnected(): Promise<boolean>;
+
+  /**
+   * Calls the `listener` whenever the connection status changes,
+   * until the returned function is called to unsubscribe.
+   */
+  subscribe(listener: (isConnected: boolean) => void): () => void;
+}
+
+/**
+ * The default connectivity monitor. In web environments it uses `navigator.onLine`, and the
+ * `online` and `offline` events of the `window`. In other environments it always says the
+ * device is connected, so you should provide your own monitor (for example, in React Native).
+ *
+ * Note `navigator.onLine` is not very useful, as it only tells you if there's a local
+ * connection, and not whether the internet is accessible.
+ */
+export class ConnectivityMonitorBrowser implements ConnectivityMonitor {
+
+  isConnected(): Promise<boolean> {
+    return Promise.resolve(_isWebEnvironment() ? navigator.onLine : true);
+  }
+
+  subscribe(listener: (isConnected: boolean) => void): () => void {
+    if (!_isWebEnvironment() || typeof window.addEventListener !== 'function') return () => null;
+
+    const onOnline = () => listener(true);
+    const onOffline = () => listener(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }
+}
+
+/**
+ * A connectivity monitor you can toggle, for testing purposes:
+ *
+ * ```ts
+ * const connectivityMonitor = new ConnectivityMonitorFake(false);
+ * const store = createStore<State>({ initialState: new State(), connectivityMonitor });
+ *
+ * await store.dispatchAndWait(new SendMessage('Hi')); // Fails, or is queued.
+ * connectivityMonitor.setConnected(true);
+ * ```
+ */
+export class ConnectivityMonitorFake implements ConnectivityMonitor {
+  private readonly _listeners = new Set<(isConnected: boolean) => void>();
+
+  constructor(private _isConnected: boolean = true) {
+  }
+
+  isConnected(): Promise<boolean> {
+    return Promise.resolve(this._isConnected);
+  }
+
+  subscribe(listener: (isConnected: boolean) => void): () => void {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Changes the connection status, and notifies the subscribers if it changed.
+   */
+  setConnected(isConnected: boolean): void {
+    if (this._isConnected === isConnected) return;
+    this._isConnected = isConnected;
+    this._listeners.forEach(listener => listener(isConnected));
+  }
+}
+
+function _isWebEnvironment(): boolean {
+  return typeof window !== 'undefined' && 'navigator' in window;
+}
@@ -1,8 +1,10 @@
-import React, { useContext, useEffect, useRef, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, useSyncExternalStore } from 'react';
 import { UserException } from './UserException';
 import { StoreException } from './StoreException';
 import { Store, StoreContext, StoreContextType } from "./Store";
-import { KissAction, ActionStatus } from './KissAction';
+import { KissAction, ActionStatus, RetryState } from './KissAction';
+import { Wait } from './Wait';
+import { EqualityFn, shallowEqual } from './Selectors';
 
 /**
  * Returns a part of the store state:
@@ -14,44 +16,33 @@ import { KissAction, ActionStatus } from './KissAction';
  * The component will rebuild only when the `name` changes, ignoring the
  * change in other parts of the state.
  *
+ * To derive values from the state without recomputing them on every state change,
+ * use a memoized selector created with `createSelector`:
+ *
+ * ```ts
+ * const selectCompletedTodos = createSelector(
+ *   [(state: State) => state.todos],
+ *   (todos) => todos.filter(todo => todo.completed)
+ * );
+ *
+ * const completedTodos = useSelect(selectCompletedTodos);
+ * ```
+ *
+ * Components that use the same memoized selector share its result, and its `combiner` runs only
+ * once per state change. Other selectors run separately for each component that uses them.
+ *
+ * By default, the selected values are compared with `!==`. If your selector returns a new array
+ * or object each time, pass an `equalityFn`, like `shallowEqual`, `deepEqual`, or your own:
+ *
+ * ```ts
+ * const {name, age} = useSelect((state: State) => ({name: state.name, age: state.age}), shallowEqual);
+ * ```
+ *
  * Note: You can use `useSelect` and `useSelector` interchangeably.
  * Prefer `useSelect` because it's shorter.
  */
-export function useSelect<St, T>(selector: (state: St) => T): T {
-
-  // This ref will persist for the full lifetime of the component.
-  let ref = useRef<RefState<St, T>>(undefined);
-
-  // The initial value is the value selected from the current state in the store.
-  let store: Store<St> = _useStoreFromContext<St>();
-  const [value, setValue] = useState(() => selector(store.state));
-
-  // Only once when the component mounts.
-  useEffect(() => {
-
-    // We save in the ref:
-    // - The selector
-    // - The currently selected value
-    // - The setValue function
-    //
-    // Whenever the state changes, the store will:
-    // 1. Retrieve all refs
-    // 2. Apply each selector to the current state to calculate the selected value.
-    // 3. And compare the selected value with the last selected value.
-    // 4. If it changed, it calls setValue.
-    ref.current = new RefState<St, T>([selector, value, setValue]);
-
-    // Save the new ref.
-    store._refStateHooks.add(ref);
-
-    return () => {
-      // When the component unmounts, delete the ref.
-      store._refStateHooks.delete(ref);
-    };
-
-  }, []);
-
-  return value;
+export function useSelect<St, T>(selector: (state: St) => T, equalityFn?: EqualityFn<T>): T {
+  return _hooks.useSelect(selector, equalityFn);
 }
 
 /**
@@ -67,8 +58,8 @@ export function useSelect<St, T>(selector: (state: St) => T): T {
  * Note: You can use `useSelect` and `useSelector` interchangeably.
  * Prefer `useSelect` because it's shorter.
  */
-export function useSelector<St, T>(selector: (state: St) => T): T {
-  return useSelect(selector);
+export function useSelector<St, T>(selector: (state: St) => T, equalityFn?: EqualityFn<T>): T {
+  return useSelect(selector, equalityFn);
 }
 
 /**
@@ -128,8 +119,7 @@ export function useAllState<St>(): St {
  * - `useDispatchSync` - Hook equivalent to `useStore().dispatchSync`
  */
 export function useStore(): StoreDispatchers<any> {
-  let store = _useStoreFromContext<any>();
-  return new StoreDispatchers(store as Store<any>);
+  return _hooks.useStore();
 }
 
 /**
@@ -161,8 +151,7 @@ export function useDispatcher(): (action: KissAction<any>) => void {
  * - `dispatchAndWaitAll` which dispatches all given actions, and returns a Promise.
  */
 export function useDispatch(): (action: KissAction<any>) => void {
-  let store = _useStoreFromContext<any>();
-  return store.dispatch.bind(store);
+  return _hooks.useDispatch();
 }
 
 /**
@@ -184,8 +173,7 @@ export function useDispatch(): (action: KissAction<any>) => void {
  * - `dispatchAndWaitAll` which dispatches all given actions, and returns a Promise.
  */
 export function useDispatchAndWait(): (action: KissAction<any>) => Promise<ActionStatus> {
-  let store = _useStoreFromContext<any>();
-  return store.dispatchAndWait.bind(store);
+  return _hooks.useDispatchAndWait();
 }
 
 /**
@@ -209,8 +197,7 @@ export function useDispatchAndWait(): (action: KissAction<any>) => Promise<Actio
  * - `dispatchAll` which dispatches all given actions in parallel.
  */
 export function useDispatchAndWaitAll(): (action: KissAction<any>[]) => Promise<KissAction<any>[]> {
-  let store = _useStoreFromContext<any>();
-  return store.dispatchAndWaitAll.bind(store);
+  return _hooks.useDispatchAndWaitAll();
 }
 
 /**
@@ -229,8 +216,7 @@ export function useDispatchAndWaitAll(): (action: KissAction<any>[]) => Promise<
  * - `dispatchSync` which dispatches sync actions, and throws if the action is async.
  */
 export function useDispatchAll(): (action: KissAction<any>[]) => KissAction<any>[] {
-  let store = _useStoreFromContext<any>();
-  return store.dispatchAll.bind(store);
+  return _hooks.useDispatchAll();
 }
 
 /**
@@ -250,8 +236,7 @@ export function useDispatchAll(): (action: KissAction<any>[]) => KissAction<any>
  * - `dispatchAll` which dispatches all given actions in parallel.
  */
 export function useDispatchSync(): (action: KissAction<any>) => void {
-  let store = _useStoreFromContext<any>();
-  return store.dispatchSync.bind(store);
+  return _hooks.useDispatchSync();
 }
 
 /**
@@ -266,25 +251,35 @@ export function useDispatchSync(): (action: KissAction<any>) => void {
  * const isWaiting = useIsWaiting(MyAction);
  * if (isWaiting) { // Show a spinner }
  * ```
+ *
+ * If you also pass a `key`, only actions whose `actionKey()` is equal to the key are considered:
+ *
+ * ```ts
+ * const isWaiting = useIsWaiting(LikePost, postId);
+ * ```
  */
-export function useIsWaiting(type: { new(...args: any[]): KissAction<any> }): boolean {
-  return _useStoreSelector<any, boolean>((store) => store.isWaiting(type));
+export function useIsWaiting(type: { new(...args: any[]): KissAction<any> }, key?: any): boolean {
+  return _hooks.useIsWaiting(type, key);
 }
 
 /**
  * Returns true if the given action `type` failed with an `UserException`.
  * Note: This method uses the EXACT action type. Subtypes are not considered.
+ *
+ * If you also pass a `key`, only actions whose `actionKey()` is equal to the key are considered.
  */
-export function useIsFailed(type: { new(...args: any[]): KissAction<any> }): boolean {
-  return _useStoreSelector<any, boolean>((store) => store.isFailed(type));
+export function useIsFailed(type: { new(...args: any[]): KissAction<any> }, key?: any): boolean {
+  return _hooks.useIsFailed(type, key);
 }
 
 /**
  * Returns the `UserException` of the `type` that failed.
  * Note: This method uses the EXACT type in `type`. Subtypes are not considered.
+ *
+ * If you also pass a `key`, only actions whose `actionKey()` is equal to the key are considered.
  */
-export function useExceptionFor(type: { new(...args: any[]): KissAction<any> }): UserException | null {
-  return _useStoreSelector<any, UserException | null>((store) => store.exceptionFor(type));
+export function useExceptionFor(type: { new(...args: any[]): KissAction<any> }, key?: any): UserException | null {
+  return _hooks.useExceptionFor(type, key);
 }
 
 /**
@@ -300,55 +295,360 @@ export function useExceptionFor(type: { new(...args: any[]): KissAction<any> }):
  * const clearExceptionFor = useClearExceptionFor();
  * clearExceptionFor(MyAction);
  * clearExceptionFor(AnotherAction);
+ * clearExceptionFor(LikePost, postId);
  * ```
  */
-export function useClearExceptionFor(): (type: { new(...args: any[]): KissAction<any> }) => void {
-  const store = _useStoreFromContext<any>();
-  return (type: { new(...args: any[]): KissAction<any> }) => {
-    store.clearExceptionFor(type);
+export function useClearExceptionFor(): (type: { new(...args: any[]): KissAction<any> }, key?: any) => void {
+  return _hooks.useClearExceptionFor();
+}
+
+/**
+ * Returns the retry state of the action of the given `type` that is currently retrying,
+ * or `null` if no action of this type is retrying. The component rebuilds on each retry.
+ *
+ * ```ts
+ * const retryState = useRetryState(LoadFeed);
+ * if (retryState) return <p>Retrying (attempt {retryState.attempt}/{retryState.maxRetries})...</p>;
+ * ```
+ *
+ * Note: This method uses the EXACT action type. Subtypes are not considered.
+ */
+export function useRetryState(type: { new(...args: any[]): KissAction<any> }): RetryState | null {
+  return _hooks.useRetryState(type);
+}
+
+/**
+ * Returns true if some optimistic update of the given entity is not yet saved in the cloud.
+ * The component rebuilds when this changes. See `OptimisticUpdate.entityKey()`.
+ *
+ * ```ts
+ * const isUnsynced = useIsPendingSync('todo-' + todo.id);
+ * ```
+ */
+export function useIsPendingSync(entityKey: any): boolean {
+  return _hooks.useIsPendingSync(entityKey);
+}
+
+/**
+ * Returns true if there is some step that can be undone with `store.undo()`.
+ * The component rebuilds when this changes.
+ *
+ * ```ts
+ * const canUndo = useCanUndo();
+ * return <button disabled={!canUndo} onClick={() => store.undo()}>Undo</button>;
+ * ```
+ */
+export function useCanUndo(): boolean {
+  return _hooks.useCanUndo();
+}
+
+/**
+ * Returns true if there is some step that can be redone with `store.redo()`.
+ * The component rebuilds when this changes.
+ */
+export function useCanRedo(): boolean {
+  return _hooks.useCanRedo();
+}
+
+/**
+ * Returns true if the device is connected to the internet, according to the store's
+ * `connectivityMonitor`. The component rebuilds when the connection status changes.
+ *
+ * ```ts
+ * const isOnline = useIsOnline();
+ * if (!isOnline) return <p>You are offline.</p>;
+ * ```
+ */
+export function useIsOnline(): boolean {
+  return _hooks.useIsOnline();
+}
+
+/**
+ * Returns the actions that were aborted because there was no internet connection, and that
+ * will be dispatched again when the connection comes back. See the `checkInternet` option
+ * `ifOffline: 'queue'`. The component rebuilds when actions are added to or removed from
+ * this list.
+ *
+ * ```ts
+ * const pending = usePendingOfflineActions();
+ * if (pending.length > 0) return <p>{pending.length} changes will be sent when you are back online.</p>;
+ * ```
+ */
+export function usePendingOfflineActions(): readonly KissAction<any>[] {
+  return _hooks.usePendingOfflineActions();
+}
+
+/**
+ * Returns true if the `wait` field of the state is waiting for the given `flag`.
+ * If `ref` is given, returns true only if it's waiting for that specific reference of the flag.
+ * For this to work, your state must have a `Wait` field named `wait`. See `WaitAction`.
+ *
+ * ```ts
+ * const isWaiting = useIsWaitingFor('checkout');
+ * const isWaitingForPost = useIsWaitingFor('likePost', postId);
+ * ```
+ */
+export function useIsWaitingFor(flag: any, ref: any = null): boolean {
+  return _hooks.useIsWaitingFor(flag, ref);
+}
+
+/**
+ * Dispatches the action created by `createAction` when the component mounts, and then again
+ * every `intervalMillis` milliseconds, until the component unmounts. See `store.startPolling()`.
+ *
+ * ```ts
+ * function PricesScreen() {
+ *   usePolling(() => new LoadPrices(), 5000);
+ *   ...
+ * }
+ * ```
+ *
+ * Polling restarts if `intervalMillis` changes. The `createAction` function may change
+ * between renders, and the most recent one is always used.
+ */
+export function usePolling(createAction: () => KissAction<any>, intervalMillis: number): void {
+  _hooks.usePolling(createAction, intervalMillis);
+}
+
+/**
+ * The hooks bound to some store context. The hooks exported by Kiss use the store of the
+ * default `StoreProvider`. To get them typed with your state, see `createHooks`.
+ * To get hooks for a separate store, see `createStoreContext`.
+ */
+export interface StoreHooks<St> {
+  useStore(): StoreDispatchers<St>;
+  useSelect<T>(selector: (state: St) => T, equalityFn?: EqualityFn<T>): T;
+  useSelector<T>(selector: (state: St) => T, equalityFn?: EqualityFn<T>): T;
+  useAllState(): St;
+  useDispatch(): (action: KissAction<St>) => void;
+  useDispatchAndWait(): (action: KissAction<St>) => Promise<ActionStatus>;
+  useDispatchAndWaitAll(): (actions: KissAction<St>[]) => Promise<KissAction<St>[]>;
+  useDispatchAll(): (actions: KissAction<St>[]) => KissAction<St>[];
+  useDispatchSync(): (action: KissAction<St>) => void;
+  useIsWaiting(type: { new(...args: any[]): KissAction<St> }, key?: any): boolean;
+  useIsFailed(type: { new(...args: any[]): KissAction<St> }, key?: any): boolean;
+  useExceptionFor(type: { new(...args: any[]): KissAction<St> }, key?: any): UserException | null;
+  useClearExceptionFor(): (type: { new(...args: any[]): KissAction<St> }, key?: any) => void;
+  useRetryState(type: { new(...args: any[]): KissAction<St> }): RetryState | null;
+  useIsPendingSync(entityKey: any): boolean;
+  useCanUndo(): boolean;
+  useCanRedo(): boolean;
+  useIsOnline(): boolean;
+  usePendingOfflineActions(): readonly KissAction<St>[];
+  useIsWaitingFor(flag: any, ref?: any): boolean;
+  usePolling(createAction: () => KissAction<St>, intervalMillis: number): void;
+}
+
+/**
+ * A separate store context, created by `createStoreContext`.
+ */
+export interface StoreContextHooks<St> extends StoreHooks<St> {
+
+  /**
+   * Provides the store to the hooks of this context only.
+   */
+  StoreProvider: (props: { store: Store<St>, children: React.ReactNode }) => React.ReactElement;
+}
+
+/**
+ * Creates a separate store context, with its own `StoreProvider` and hooks. Use it to host a
+ * feature-module store alongside the app store, or to let micro-frontends share a page without
+ * their stores colliding:
+ *
+ * ```tsx
+ * // In the feature module.
+ * export const {StoreProvider: ChatProvider, useSelect: useChatSelect, useDispatch: useChatDispatch}
+ *   = createStoreContext<ChatState>();
+ *
+ * <StoreProvider store={appStore}>
+ *   <ChatProvider store={chatStore}>
+ *     <ChatScreen/>
+ *   </ChatProvider>
+ * </StoreProvider>
+ * ```
+ *
+ * Inside `ChatScreen`, `useChatSelect` uses the chat store, while the regular `useSelect` still
+ * uses the app store. Nested providers of the same context work as usual: the hooks use the
+ * nearest one.
+ */
+export function createStoreContext<St>(): StoreContextHooks<St> {
+  const storeContext = createContext<StoreContextType<St>>({store: null});
+
+  function StoreProvider({store, children}: { store: Store<St>, children: React.ReactNode }): React.ReactElement {
+    const [_store] = useState<Store<St>>(store);
+    return (
+      <storeContext.Provider value={{store: _store}}>
+        {children}
+      </storeContext.Provider>
+    );
+  }
+
+  return {StoreProvider, ..._createHooks<St>(storeContext)};
+}
+
+/**
+ * Returns the hooks typed with your state, so that you don't need to type the state in each
+ * selector, and so that dispatching an action of some other state type is a compile error.
+ * The hooks use the store of the default `StoreProvider`.
+ *
+ * Create them once, in a central place, and use them instead of the ones exported by Kiss:
+ *
+ * ```ts
+ * export const {useSelect, useAllState, useDispatch, useIsWaiting} = createHooks<State>();
+ *
+ * // In your components:
+ * const name = useSelect((state) => state.user.name);
+ * const dispatch = useDispatch();
+ * dispatch(new OtherAppAction()); // Compile error, if it's not a `KissAction<State>`.
+ * ```
+ *
+ * To get the hooks for a separate store, see `createStoreContext`.
+ */
+export function createHooks<St>(): StoreHooks<St> {
+  return _createHooks<St>(StoreContext);
+}
+
+// The hooks that use the store of the default `StoreProvider`.
+const _hooks: StoreHooks<any> = _createHooks<any>(StoreContext);
+
+function _createHooks<St>(storeContext: React.Context<StoreContextType<St>>): StoreHooks<St> {
+
+  const useContextStore = () => _useStoreFromContext<St>(storeContext);
+
+  function useSelect<T>(selector: (state: St) => T, equalityFn?: EqualityFn<T>): T {
+    const store = useContextStore();
+    return _useSubscription<St, T>(store, selector, () => store.state, equalityFn, true);
+  }
+
+  function useStoreSelect<T>(selector: (store: Store<St>) => T, equalityFn?: EqualityFn<T>): T {
+    const store = useContextStore();
+    return _useSubscription<Store<St>, T>(store, selector, () => store, equalityFn, false);
+  }
+
+  return {
+    useStore: () => new StoreDispatchers<St>(useContextStore()),
+    useSelect,
+    useSelector: useSelect,
+    useAllState: () => useSelect((state) => state),
+
+    useDispatch() {
+      const store = useContextStore();
+      return store.dispatch.bind(store);
+    },
+
+    useDispatchAndWait() {
+      const store = useContextStore();
+      return store.dispatchAndWait.bind(store);
+    },
+
+    useDispatchAndWaitAll() {
+      const store = useContextStore();
+      return store.dispatchAndWaitAll.bind(store);
+    },
+
+    useDispatchAll() {
+      const store = useContextStore();
+      return store.dispatchAll.bind(store);
+    },
+
+    useDispatchSync() {
+      const store = useContextStore();
+      return store.dispatchSync.bind(store);
+    },
+
+    useIsWaiting: (type, key) => useStoreSelect((store) => store.isWaiting(type, key)),
+    useIsFailed: (type, key) => useStoreSelect((store) => store.isFailed(type, key)),
+    useExceptionFor: (type, key) => useStoreSelect((store) => store.exceptionFor(type, key)),
+
+    useClearExceptionFor() {
+      const store = useContextStore();
+      return (type, key) => {
+        store.clearExceptionFor(type, key);
+      };
+    },
+
+    useRetryState: (type) => useStoreSelect((store) => store.retryState(type)),
+    useIsPendingSync: (entityKey) => useStoreSelect((store) => store.isPendingSync(entityKey)),
+    useCanUndo: () => useStoreSelect((store) => store.canUndo),
+    useCanRedo: () => useStoreSelect((store) => store.canRedo),
+    useIsOnline: () => useStoreSelect((store) => store.isOnline),
+    usePendingOfflineActions: () => useStoreSelect((store) => store.pendingOfflineActions(), shallowEqual),
+    useIsWaitingFor: (flag, ref = null) => useSelect((state: any) => (state.wait as Wait).isWaitingFor(flag, ref)),
+
+    usePolling(createAction, intervalMillis) {
+      const store = useContextStore();
+
+      // Keeps the most recent function, so that polling doesn't restart on every render.
+      const createActionRef = useRef(createAction);
+      createActionRef.current = createAction;
+
+      useEffect(() => {
+        const polling = store.startPolling(() => createActionRef.current(), intervalMillis);
+        return () => polling.stop();
+      }, [store, intervalMillis]);
+    },
   };
 }
 
-function _useStoreSelector<St, T>(selector: (store: Store<St>) => T): T {
+/**
+ * Subscribes the component to the store with `useSyncExternalStore`, and returns the value
+ * selected from the source (the state, or the store itself). The component rebuilds only when
+ * the selected value changes, according to `equalityFn`, or `!==` if not given.
+ *
+ * The selector is read on every render, so it may change between renders (for example, when
+ * it uses props), and the most recent one is always used. Since `useSyncExternalStore` checks
+ * the value again after subscribing, changes made between the render and the subscription are
+ * not missed.
+ *
+ * If `isSourceImmutable` is true, the selector doesn't run again while the source is the same.
+ */
+function _useSubscription<Src, T>(
+  store: Store<any>,
+  selector: (source: Src) => T,
+  getSource: () => Src,
+  equalityFn: EqualityFn<T> | undefined,
+  isSourceImmutable: boolean,
+): T {
 
-  // This ref will persist for the full lifetime of the component.
-  let ref = useRef<RefStore<St, T>>(undefined);
+  // The last selected value, and the source and selector used to select it.
+  let last = useRef<{ source: Src, selector: (source: Src) => T, value: T } | null>(null);
 
-  // The initial value is the value selected from the current state in the store.
-  let store: Store<St> = _useStoreFromContext<St>();
-  const [value, setValue] = useState(() => selector(store));
+  const subscribe = useCallback((listener: () => void) => store.subscribe(listener), [store]);
 
-  // Only once when the component mounts.
-  useEffect(() => {
+  const getSnapshot = (): T => {
+    const source = getSource();
+    const current = last.current;
 
-    // We save in the ref:
-    // - The selector
-    // - The currently selected value
-    // - The setValue function
-    //
-    // Whenever the state changes, the store will:
-    // 1. Retrieve all refs
-    // 2. Apply each selector to the current state to calculate the selected value.
-    // 3. And compare the selected value with the last selected value.
-    // 4. If it changed, it calls setValue.
-    ref.current = new RefStore<St, T>([selector, value, setValue]);
+    if (isSourceImmutable && current !== null && current.source === source && current.selector === selector)
+      return current.value;
 
-    // Save the new ref.
-    store._refStoreHooks.add(ref);
+    const value = selector(source);
 
-    return () => {
-      // When the component unmounts, delete the ref.
-      store._refStoreHooks.delete(ref);
-    };
+    // While the value is equal to the last one, keep returning the last one,
+    // so that React doesn't rebuild the component.
+    if (current !== null && !_hasChanged(current.value, value, equalityFn)) {
+      last.current = {source, selector, value: current.value};
+      return current.value;
+    }
 
-  }, []);
+    last.current = {source, selector, value};
+    return value;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
 
-  return value;
+/**
+ * Returns true if the newly selected value should rebuild the component, according to the hook's
+ * equality function. Without an equality function, values are compared with `!==`.
+ */
+function _hasChanged<T>(currentValue: T, newValue: T, equalityFn: EqualityFn<T> | undefined): boolean {
+  return (equalityFn === undefined) ? (newValue !== currentValue) : !equalityFn(currentValue, newValue);
 }
 
-function _useStoreFromContext<St>(): Store<St> {
-  const context = useContext<StoreContextType<St>>(StoreContext) as StoreContextType<St>;
-  if (context === undefined) {
+function _useStoreFromContext<St>(storeContext: React.Context<StoreContextType<St>>): Store<St> {
+  const context = useContext<StoreContextType<St>>(storeContext) as StoreContextType<St>;
+  if (context === undefined || context.store === null) {
     throw new StoreException('useStore must be used within a StoreProvider');
   }
   return context.store as Store<St>;
@@ -372,7 +672,7 @@ class StoreDispatchers<St> {
   /**
    * Dispatches the action to the Redux store, to potentially change the state.
    */
-  dispatch(action: KissAction<any>): void {
+  dispatch(action: KissAction<St>): void {
     return this.store.dispatch(action);
   }
 
@@ -384,7 +684,7 @@ class StoreDispatchers<St> {
    *
    * Usage: `await store.dispatchAndWait(new MyAction())`.
    */
-  dispatchAndWait(action: KissAction<any>): Promise<ActionStatus> {
+  dispatchAndWait(action: KissAction<St>): Promise<ActionStatus> {
     return this.store.dispatchAndWait(action);
   }
 
@@ -398,7 +698,7 @@ class StoreDispatchers<St> {
    * The only use for `dispatchSync` is when you need to guarantee (in runtime) that your
    * action is SYNC, which means the state gets changed right after the dispatch call.
    */
-  dispatchSync(action: KissAction<any>): void {
+  dispatchSync(action: KissAction<St>): void {
     return this.store.dispatchSync(action);
   }
 
@@ -914,7 +1214,7 @@ class StoreDispatchers<St> {
    * You should only use this method in tests.
    */
   async waitAllActionTypes(
-    actionTypes: { new(...args: any[]): KissAction<any> }[],
+    actionTypes: { new(...args: any[]): KissAction<St> }[],
     {
       completeImmediately = false,
       timeoutMillis = null
@@ -1035,19 +1335,3 @@ class StoreDispatchers<St> {
       });
   }
 }
-
-class RefState<St, T> {
-  selectorAndValueAndSetValue: [(state: St) => T, T, React.Dispatch<React.SetStateAction<T>>];
-
-  constructor(selectorAndValueAndSetValue: [(state: St) => T, T, React.Dispatch<React.SetStateAction<T>>]) {
-    this.selectorAndValueAndSetValue = selectorAndValueAndSetValue;
-  }
-}
-
-class RefStore<St, T> {
-  selectorAndValueAndSetValue: [(store: Store<St>) => T, T, React.Dispatch<React.SetStateAction<T>>];
-
-  constructor(selectorAndValueAndSetValue: [(store: Store<St>) => T, T, React.Dispatch<React.SetStateAction<T>>]) {
-    this.selectorAndValueAndSetValue = selectorAndValueAndSetValue;
-  }
-}
@@ -1,5 +1,5 @@
 import { Store } from "./Store";
-import { StoreException } from "./StoreException";
+import { StoreException, TimeoutException } from "./StoreException";
 import { UserException } from "./UserException";
 
 /**
@@ -31,12 +31,29 @@ export type AsyncReducer<St> = Promise<((state: St) => (St | null)) | null>;
 
 export type AsyncReducerResult<St> = ((state: St) => (St | null)) | null;
 
+/**
+ * How to deal with an action dispatched while an equivalent action is still running:
+ * - `'queue'`: Waits for the running action to finish, and then runs.
+ * - `'latest'`: Cancels the running action, and runs right away.
+ * - `'drop'`: Is aborted, just like a `nonReentrant` action.
+ */
+export type Concurrency = 'queue' | 'latest' | 'drop';
+
 // Interface for the checkInternet property.
 interface CheckInternetOptions {
   /** Whether to show a dialog when no internet connection is available. */
-  dialog: boolean;
+  dialog?: boolean;
+  /**
+   * What to do when no internet connection is available:
+   * - `'fail'` (default): Throws a `UserException`.
+   * - `'queue'`: Aborts the action, and dispatches it again when the connection comes back.
+   */
+  ifOffline?: 'fail' | 'queue';
 }
 
+// Base class fields that are not printed by `KissAction.toString()`.
+const _notPrintedFields = new Set(['nonReentrant', 'concurrency', 'retry', 'wrapReduce', 'debounce', 'throttle', 'ignoreFresh', 'freshFor', 'force', 'timeoutMillis', 'undoable']);
+
 /** Base action. All other actions should extend this one. */
 export abstract class KissAction<St> {
 
@@ -66,7 +83,8 @@ export abstract class KissAction<St> {
    * 
    * For example, the default `before()` method checks if the `checkInternet` property was set.
    * If it was set, it checks if the device has an internet connection. If the connection is not
-   * present, it throws a `UserException`, preventing the reducer from running.
+   * present, it throws a `UserException`, preventing the reducer from running. Or, if the
+   * action was set with `ifOffline: 'queue'`, it queues the action to run again later.
    *
    * Note the `after()` method always runs, even if the `before()` method throws an exception.
    */
@@ -76,7 +94,9 @@ export abstract class KissAction<St> {
 
       return this.hasInternet().then((isConnected: boolean) => {
         if (!isConnected) {
-          if (dialog) {
+          if (this.checkInternet?.ifOffline === 'queue') {
+            this.store._addOfflineAction(this);
+          } else if (dialog) {
             throw new UserException("Please, verify your connection.").withTitle("There is no Internet");
           } else {
             throw new UserException("No Internet").withDialog(false);
@@ -90,53 +110,21 @@ export abstract class KissAction<St> {
   }
 
   /**
-  * Checks if the device has an internet connection.
-  * Can be overridden by subclasses to provide custom internet connectivity checks.
-  *   
-  * By default, in web environment it uses `navigator.onLine`, and for other environments it returns `true`.  
-  * Note `navigator.onLine` is not very useful, as it only tells you if there's a local connection, 
-  * and not whether the internet is accessible.
-  * 
-  * It's recommended to override this method in your base action, to check for internet connectivity
-  * in some other way that suits your needs.
-  * 
-  * For example, in React Native environments, we could use the `NetInfo` package 
-  * (https://www.npmjs.com/package/@rescript-react-native/netinfo) to check for internet connectivity.
-  * 
-  * First, add NetInfo to your `package.json`:
-  * 
-  * ```json
-  * "dependencies": {
-  *   "@react-native-community/netinfo": "^11.4.1"
-  * }
-  * ```	
-  * 
-  * Then, import it in your action:
-  * 
-  * ```typescript
-  * import NetInfo from '@react-native-community/netinfo';
-  * ```
-  * 
-  * Finally, override the `hasInternet()` method:
-  * 
-  * ```typescript
-  * protected hasInternet(): Promise<boolean> {
-  *   return NetInfo.fetch().then(state => state.isConnected);
-  * }
-  * ```
-  * 
-  * Another option, for Node.js and the browser is using https://www.npmjs.com/package/is-online
-  * 
-  * Note: Instead of adding this to every action, you can create a base class 
-  * that extends `KissAction` and implement the `hasInternet()` method there.
-  */
+   * Checks if the device has an internet connection.
+   * By default, it asks the store's connectivity monitor (see `ConnectivityMonitor`), which in
+   * web environments uses `navigator.onLine`, and for other environments returns `true`.
+   *
+   * To change how connectivity is checked for the whole app, pass a `connectivityMonitor` to the
+   * store constructor. Override this method only if some action needs a different check:
+   *
+   * ```typescript
+   * protected hasInternet(): Promise<boolean> {
+   *   return pingServer('https://api.example.com/health');
+   * }
+   * ```
+   */
   protected hasInternet(): Promise<boolean> {
-
-    // Web environment detection.
-    const isWebEnvironment = typeof window !== 'undefined' && 'navigator' in window;
-
-    // In web environment, use navigator.onLine. Otherwise, assume connected.
-    return Promise.resolve(isWebEnvironment ? navigator.onLine : true);
+    return this.store.connectivityMonitor.isConnected();
   }
 
   /**
@@ -186,30 +174,28 @@ export abstract class KissAction<St> {
    * - If `checkInternet = { dialog: false }`, throw a UserException without a dialog.
    * - If `checkInternet` is undefined/null, don't check for internet.
    * 
-   * The default is checking for internet connectivity with `navigator.onLine`. To customize how 
-   * internet connectivity is checked, you may override the `hasInternet()` method:
-   * 
+   * Internet connectivity is checked with the store's `connectivityMonitor`. By default, it uses
+   * `navigator.onLine` in web environments, and returns true for other environments. To customize
+   * how internet connectivity is checked, pass your own `ConnectivityMonitor` to the store, or
+   * override the `hasInternet()` method of the action.
+   *
+   * If you set `ifOffline: 'queue'`, the action doesn't fail when there is no internet.
+   * Instead, it's aborted and kept in a queue (see `store.pendingOfflineActions()`), and it will
+   * be dispatched again when the store's `connectivityMonitor` says the connection is back:
+   *
    * ```ts
-   * class MyAction extends KissAction<State> {
-   *   checkInternet = { dialog: true };
-   * 
-   *   protected hasInternet(): Promise<boolean> {
-   *     // Custom internet check implementation
-   *     return Promise.resolve(navigator.onLine &&  await this.pingServer('https://api.example.com/health');
-   *   }
-   * 
+   * class SendMessage extends KissAction<State> {
+   *   checkInternet = { ifOffline: 'queue' } as const;
    *   reduce() { ... }
    * }
    * ```
-   * 
-   * By default, the `hasInternet()` method uses `navigator.onLine` in web environments 
-   * and returns true for other environments.
    */
   checkInternet?: CheckInternetOptions;
 
   private _store: Store<St> | null = null;
   private _resolve: ((value: ActionStatus) => void) | null = null;
   private _status = new ActionStatus();
+  private _abortController: AbortController | null = null;
   private _initialState: St | null = null;
   private _log: { key: string, value: any }[] = [];
 
@@ -266,6 +252,31 @@ export abstract class KissAction<St> {
     return this._status;
   }
 
+  /**
+   * An `AbortSignal` that is aborted when the action is cancelled with `store.cancel(action)`
+   * or `store.cancelAll(MyAction)`. Pass it to `fetch` (or any other API that accepts a signal),
+   * so that the request is aborted when the action is cancelled:
+   *
+   * ```ts
+   * class LoadSearchResults extends KissAction<State> {
+   *   constructor(public searchTerm: string) { super(); }
+   *
+   *   async reduce() {
+   *     let response = await fetch('https://example.com/?q=' + this.searchTerm, {signal: this.signal});
+   *     let result = await response.json();
+   *     return (state) => state.copy({searchResult: result});
+   *   }
+   * }
+   * ```
+   *
+   * When an action is cancelled, its async reducer result is discarded instead of applied,
+   * and any error it throws after that (like the `AbortError` thrown by `fetch`) is ignored.
+   */
+  get signal(): AbortSignal {
+    if (this._abortController === null) this._abortController = new AbortController();
+    return this._abortController.signal;
+  }
+
   /**
    * Dispatches an action to the Redux store.
    */
@@ -420,27 +431,33 @@ export abstract class KissAction<St> {
    * dispatch(MyAction());
    * if (this.isWaiting(MyAction)) { // Show a spinner }   *
    * ```
+   *
+   * If you also pass a `key`, only actions whose `actionKey()` is equal to the key are considered.
    */
-  isWaiting<T extends KissAction<St>>(type: { new(...args: any[]): T }): boolean {
-    return this.store.isWaiting(type);
+  isWaiting<T extends KissAction<St>>(type: { new(...args: any[]): T }, key?: any): boolean {
+    return this.store.isWaiting(type, key);
   }
 
   /**
    * Returns true if the given action `type` failed with an `UserException`.
    * Note: This method uses the EXACT action type. Subtypes are not considered.
+   *
+   * If you also pass a `key`, only actions whose `actionKey()` is equal to the key are considered.
    */
-  isFailed<T extends KissAction<any>>(type: { new(...args: any[]): T }): boolean {
-    return this.store.isFailed(type);
+  isFailed<T extends KissAction<any>>(type: { new(...args: any[]): T }, key?: any): boolean {
+    return this.store.isFailed(type, key);
   }
 
   /**
    * Returns the `UserException` of the `type` that failed.
    * Note: This method uses the EXACT type in `type`. Subtypes are not considered.
+   *
+   * If you also pass a `key`, only actions whose `actionKey()` is equal to the key are considered.
    */
   exceptionFor<T extends KissAction<St>>(type: {
     new(...args: any[]): T
-  }): (UserException | null) {
-    return this.store.exceptionFor(type);
+  }, key?: any): (UserException | null) {
+    return this.store.exceptionFor(type, key);
   }
 
   /**
@@ -455,9 +472,11 @@ export abstract class KissAction<St> {
    * ```ts
    * this.clearExceptionFor(MyAction);
    * ```
+   *
+   * If you also pass a `key`, only the action whose `actionKey()` is equal to the key is cleared.
    */
-  clearExceptionFor<T extends KissAction<St>>(type: { new(...args: any[]): T }): void {
-    return this.store.clearExceptionFor(type);
+  clearExceptionFor<T extends KissAction<St>>(type: { new(...args: any[]): T }, key?: any): void {
+    return this.store.clearExceptionFor(type, key);
   }
 
   /**
@@ -472,6 +491,60 @@ export abstract class KissAction<St> {
    */
   nonReentrant: boolean = false;
 
+  /**
+   * Defines what happens when the action is dispatched while an equivalent action (by default,
+   * any action of the same type) is still running:
+   *
+   * - `'queue'`: The action waits for the running ones to finish, and then runs. Actions of the
+   *   same type run one after the other, in the order they were dispatched.
+   *
+   * - `'latest'`: The running actions are cancelled (see `store.cancel`), so that their results
+   *   are discarded, and the new action runs right away. Only the latest one changes the state.
+   *
+   * - `'drop'`: The new action is aborted, just like a `nonReentrant` action. It finishes with
+   *   `status.isAborted` true.
+   *
+   * ```ts
+   * class LoadSearchResults extends KissAction<State> {
+   *    concurrency = 'latest' as const;
+   *    ...
+   * }
+   * ```
+   *
+   * To decide which actions are equivalent by their params, and not only by their type,
+   * override `nonReentrantKeyParams()`.
+   */
+  concurrency?: Concurrency;
+
+  /**
+   * By default, a `nonReentrant` action is aborted if any action of the same type is still
+   * running. Override this method to return the action fields that identify the "same" action,
+   * so that actions with different params can run at the same time. For example:
+   *
+   * ```ts
+   * class LoadUser extends KissAction<State> {
+   *    constructor(public userId: number) { super(); }
+   *
+   *    nonReentrant = true;
+   *
+   *    nonReentrantKeyParams() {
+   *      return [this.userId];
+   *    }
+   * }
+   * ```
+   *
+   * Here, `LoadUser(42)` and `LoadUser(43)` can run at the same time, but a second
+   * `LoadUser(42)` is aborted while the first one is still running. Params are compared
+   * one by one with `===`.
+   *
+   * Returning `null` (the default) means the action is non-reentrant by type only.
+   *
+   * The same key params are also used by `concurrency` to decide which actions are equivalent.
+   */
+  nonReentrantKeyParams(): any[] | null {
+    return null;
+  }
+
   /**
    * To retry the `reduce` method when it throws an error:
    *
@@ -512,6 +585,23 @@ export abstract class KissAction<St> {
    * }
    * ```
    *
+   * You can also use:
+   *
+   * - `jitter`: A fraction between 0 and 1 that randomizes each delay, so that many clients
+   *   don't retry at the same time. For example, `0.2` makes each delay a random value between
+   *   80% and 120% of the original delay (still limited by `maxDelay`). The default is `0`.
+   *
+   * - `shouldRetry(error, attempt)`: Returns `false` for errors that should not be retried.
+   *   The default is retrying all errors. For example, to not retry `UserException`s:
+   *   `retry = {shouldRetry: (error) => !(error instanceof UserException)}`.
+   *
+   * - `onRetry(error, attempt, delay)`: Called right before waiting `delay` milliseconds
+   *   for each retry. Useful for logging.
+   *
+   * If the error thrown by the reducer has a numeric `retryAfterMillis` property (for example,
+   * from an HTTP `Retry-After` header), that delay is used instead of the exponential backoff
+   * one. Note this server-suggested delay is not limited by `maxDelay`, and has no jitter.
+   *
    * Notes:
    *
    * - If you `await dispatchAndWait(action)` and the action uses unlimited retries,
@@ -551,12 +641,267 @@ export abstract class KissAction<St> {
     maxDelay: 5000,
     unlimitedRetries: false,
     currentDelay: 0,
+    jitter: 0,
   };
 
   get ifRetryIsOn(): boolean {
     return (this.retry as RetryOptions)?.on === true;
   }
 
+  /**
+   * To debounce the action, set `debounce` to the number of milliseconds to wait:
+   *
+   * ```ts
+   * class SearchText extends KissAction<State> {
+   *    constructor(public searchTerm: string) { super(); }
+   *
+   *    debounce = 300; // Milliseconds
+   *
+   *    async reduce() {
+   *      let result = await loadJson('https://example.com/?q=', this.searchTerm);
+   *      return (state) => state.copy({searchResult: result});
+   *    }
+   * }
+   * ```
+   *
+   * When a debounced action is dispatched, its reducer only runs after `debounce` milliseconds
+   * have passed without any other action with the same `lockKey()` being dispatched. This is
+   * useful for "search as you type", where you don't want every keystroke to trigger a request.
+   *
+   * Notes:
+   *
+   * - The `before()` method runs immediately for all dispatched actions.
+   *   Only the `reduce()` method is debounced.
+   *
+   * - Actions superseded by a more recent dispatch will not run their reducer. They finish
+   *   with `status.isAborted` equal to `true`, which means `dispatchAndWait` still resolves.
+   *   Aborted actions are not considered failed.
+   *
+   * - Keep in mind that all actions using `debounce` will become asynchronous, even
+   *   if the original action was synchronous.
+   *
+   * - By default, actions are debounced by their type. To debounce by something else,
+   *   override the `lockKey()` method.
+   */
+  debounce?: number;
+
+  get ifDebounceIsOn(): boolean {
+    return (this.debounce ?? 0) > 0;
+  }
+
+  /**
+   * To throttle the action, set `throttle` to a number of milliseconds:
+   *
+   * ```ts
+   * class LoadPrices extends KissAction<State> {
+   *    throttle = 5000; // Milliseconds
+   *
+   *    async reduce() {
+   *      let result = await loadJson('https://example.com/prices');
+   *      return (state) => state.copy({prices: result});
+   *    }
+   * }
+   * ```
+   *
+   * Once a throttled action runs, it's considered "fresh" for `throttle` milliseconds. While it's
+   * fresh, any other action with the same `lockKey()` that is dispatched will be aborted, exactly
+   * as if its `abortDispatch()` returned `true`. After this period ends, the action is considered
+   * "stale", and it's ready to run again.
+   *
+   * Notes:
+   *
+   * - If the action fails (throws an error), it's immediately considered stale, so that it can
+   *   be dispatched again right away.
+   *
+   * - Set `ignoreFresh` to `true` to run the action even if the previous one is still fresh.
+   *   For example, when the user explicitly pulls to refresh. This also restarts the period.
+   *
+   * - By default, actions are throttled by their type. To throttle by something else,
+   *   override the `lockKey()` method.
+   *
+   * - While `nonReentrant` only prevents an action from running while a previous one is still
+   *   running, `throttle` also prevents it from running too frequently after it finishes.
+   */
+  throttle?: number;
+
+  /**
+   * If `true`, a throttled action will run even if a previous action with the same
+   * `lockKey()` is still fresh. See `throttle`.
+   */
+  ignoreFresh: boolean = false;
+
+  get ifThrottleIsOn(): boolean {
+    return (this.throttle ?? 0) > 0;
+  }
+
+  /**
+   * To avoid loading the same data again and again, set `freshFor` to a number of milliseconds:
+   *
+   * ```ts
+   * class LoadProfile extends KissAction<State> {
+   *    freshFor = 60000; // Milliseconds
+   *
+   *    async reduce() {
+   *      let profile = await loadJson('https://example.com/profile');
+   *      return (state) => state.copy({profile: profile});
+   *    }
+   * }
+   * ```
+   *
+   * Once the action finishes successfully, its result is considered "fresh" for `freshFor`
+   * milliseconds. While it's running or fresh, any other action of the same type and the same
+   * `actionKey()` that is dispatched will be aborted, exactly as if its `abortDispatch()` returned
+   * `true`. This means several screens can dispatch `LoadProfile` when they mount, and the
+   * profile is loaded only once.
+   *
+   * Notes:
+   *
+   * - If the action fails (throws an error), is cancelled or is aborted, it's not fresh, so that
+   *   it can be dispatched again right away.
+   *
+   * - Set `force` to `true` to run the action even if the previous one is still fresh.
+   *
+   * - Use `store.invalidateFreshness(LoadProfile)` to make the next dispatch run, for example
+   *   after some other action changes the profile in the server.
+   *
+   * - While `throttle` starts the period when the action is dispatched, `freshFor` starts it
+   *   when the action finishes, since that's when the loaded data is fresh.
+   */
+  freshFor?: number;
+
+  /**
+   * If `true`, an action with `freshFor` will run even if a previous action of the same type
+   * and the same `actionKey()` is still fresh. See `freshFor`.
+   */
+  force: boolean = false;
+
+  get ifFreshForIsOn(): boolean {
+    return (this.freshFor ?? 0) > 0;
+  }
+
+  /**
+   * If `true`, the state changes made by this action can be undone with `store.undo()`, and then
+   * redone with `store.redo()`:
+   *
+   * ```ts
+   * class AddShape extends KissAction<State> {
+   *    undoable = true;
+   *    constructor(public shape: Shape) { super(); }
+   *    reduce() { return this.state.withShape(this.shape); }
+   * }
+   *
+   * store.dispatch(new AddShape(circle));
+   * store.undo(); // Removes the circle.
+   * store.redo(); // Adds the circle back.
+   * ```
+   *
+   * Each undo step keeps the state from before the action changed it. To undo several actions
+   * in a single step, use `store.undoTransaction()`.
+   */
+  undoable: boolean = false;
+
+  /**
+   * To make the action fail if it takes too long, set `timeoutMillis` to the maximum number of
+   * milliseconds its async `before()` and `reduce()` methods may take, together:
+   *
+   * ```ts
+   * class LoadFeed extends KissAction<State> {
+   *    timeoutMillis = 10000;
+   *
+   *    async reduce() {
+   *      let feed = await loadJson('https://example.com/feed', {signal: this.signal});
+   *      return (state) => state.copy({feed: feed});
+   *    }
+   * }
+   * ```
+   *
+   * If the action doesn't finish in time, it fails with the error returned by `timeoutError()`,
+   * which by default is a `UserException` with a `TimeoutException` as its `hardCause`. This
+   * error is processed like any other error thrown by the action, going through `wrapError`,
+   * `globalWrapError` and `errorObserver`.
+   *
+   * Notes:
+   *
+   * - The time counts from when the action is dispatched. If the action also uses `retry` or
+   *   `debounce`, the retries and the debounce delay are part of that time.
+   *
+   * - When the timeout happens, the action's `signal` is aborted, so that a `fetch` that
+   *   received it is aborted too. Any result that arrives later is discarded.
+   *
+   * - SYNC actions can't time out.
+   */
+  timeoutMillis?: number;
+
+  get ifTimeoutIsOn(): boolean {
+    return (this.timeoutMillis ?? 0) > 0;
+  }
+
+  /**
+   * Returns the error thrown when the action times out. See `timeoutMillis`.
+   * By default, it's a `UserException` that will be shown to the user, with a `TimeoutException`
+   * as its `hardCause`. You can override it to return some other error, for example:
+   *
+   * ```ts
+   * timeoutError() {
+   *   return new UserException('The server is taking too long. Please, try again.');
+   * }
+   * ```
+   *
+   * Note: If you return an error that is not a `UserException` (like a plain `TimeoutException`),
+   * and the store has no `errorObserver`, the error is rethrown, like any other error that is not
+   * a `UserException`. Since the action is async, that's an unhandled Promise rejection.
+   */
+  timeoutError(): any {
+    return new UserException('The operation took too long. Please, try again.', {
+      hardCause: new TimeoutException(`The action ${this} timed out after ${this.timeoutMillis} milliseconds.`),
+    });
+  }
+
+  /**
+   * Returns the key used by `debounce` to decide which actions supersede each other, and by
+   * `throttle` to decide which actions are fresh.
+   * By default, it's the action type, which means all actions of the same type share the
+   * same lock. You can override it to return some other immutable value. For example, to
+   * debounce each search field separately:
+   *
+   * ```ts
+   * class SearchText extends KissAction<State> {
+   *    constructor(public field: string, public searchTerm: string) { super(); }
+   *    debounce = 300;
+   *    lockKey() { return 'SearchText-' + this.field; }
+   *    ...
+   * }
+   * ```
+   */
+  lockKey(): any {
+    return this.constructor;
+  }
+
+  /**
+   * Returns a key that identifies this action among other actions of the same type.
+   * This lets you check `isWaiting`, `isFailed`, `exceptionFor` and `clearExceptionFor`
+   * for a specific action, and not only for its type. For example, when each row of a list
+   * dispatches its own action:
+   *
+   * ```ts
+   * class LikePost extends KissAction<State> {
+   *    constructor(public postId: number) { super(); }
+   *    actionKey() { return this.postId; }
+   *    ...
+   * }
+   *
+   * if (store.isWaiting(LikePost, 17)) { // Show a spinner in post 17 }
+   * ```
+   *
+   * The key is also used by `freshFor`, so that actions with different keys are fresh separately.
+   *
+   * Keys are compared with `===`, so return some immutable value like a string or a number.
+   * By default, it returns `null`, which means the action has no key.
+   */
+  actionKey(): any {
+    return null;
+  }
+
   /**
    * Returns a promise which will resolve when the given state `condition` is true.
    * If the condition is already true when the method is called, the promise resolves immediately.
@@ -1213,10 +1558,44 @@ export abstract class KissAction<St> {
     hasFinishedMethodAfter?: boolean
     originalError?: any,
     wrappedError?: any,
+    isAborted?: boolean,
+    isCancelled?: boolean,
+    isRolledBack?: boolean,
   } = {}) {
     this._status = this._status.copy(params);
   }
 
+  /**
+   * For Kiss internal use only.
+   */
+  _cancel(): void {
+    this._changeStatus({isCancelled: true});
+    this._abort();
+  }
+
+  /**
+   * For Kiss internal use only.
+   */
+  _abort(): void {
+    if (this._abortController === null) this._abortController = new AbortController();
+    this._abortController.abort();
+  }
+
+  /**
+   * For Kiss internal use only.
+   * Forgets the previous dispatch, so that an action queued while offline can be dispatched again.
+   */
+  _resetForReplay(): void {
+    this._store = null;
+    this._resolve = null;
+    this._status = new ActionStatus();
+    this._abortController = null;
+    this._initialState = null;
+    this._log = [];
+    this._retry = {...this._retry, attempts: 0, currentDelay: 0};
+    if (this.ifRetryIsOn) this.retry = this._retry;
+  }
+
   /**
    * For Kiss internal use only.
    */
@@ -1242,7 +1621,7 @@ export abstract class KissAction<St> {
     // Initialize an array to hold key-value pairs as strings
     const keyValuePairs: string[] = [];
     for (const key of Object.keys(this)) {
-      if (!key.startsWith('_') && (key != 'nonReentrant') && (key != 'retry') && (key != 'wrapReduce')) { // Continue to exclude base class/internal fields
+      if (!key.startsWith('_') && !_notPrintedFields.has(key)) { // Continue to exclude base class/internal fields
         // For each property, push "key:value" string to the array
         // Note: This simple line assumes that `value` can be meaningfully represented as a string.
         // You might need a more complex handling for objects, arrays, etc.
@@ -1318,6 +1697,31 @@ export class ActionStatus {
    */
   readonly wrappedError: any;
 
+  /**
+   * Is true if the action was aborted before its reducer could run. For example, a debounced
+   * action is aborted when another action with the same lock key is dispatched before the
+   * debounce period ends. An aborted action is NOT considered failed: It still completes, its
+   * `after` method still runs, and `isCompletedOk` is true, since no errors were thrown.
+   *
+   * Note: When `dispatchAndWait` aborts a throttled action, the action is not even dispatched,
+   * and the returned status has `isAborted` true and `isDispatched` false.
+   */
+  readonly isAborted: boolean;
+
+  /**
+   * Is true if the action was cancelled with `store.cancel(action)` or `store.cancelAll(type)`
+   * while it was running. The result of a cancelled action is discarded, and any errors it
+   * throws after being cancelled are ignored. A cancelled action still completes, and its
+   * `after` method still runs.
+   */
+  readonly isCancelled: boolean;
+
+  /**
+   * Is true if the action was dispatched with `store.dispatchAtomically`, and its state changes
+   * were rolled back because some action of the group failed.
+   */
+  readonly isRolledBack: boolean;
+
   /**
    * Returns true only if the action has completed executing, either with or without errors.
    * If this is true, the 'after' method already ran.
@@ -1367,6 +1771,9 @@ export class ActionStatus {
     hasFinishedMethodAfter?: boolean,
     originalError?: any,
     wrappedError?: any,
+    isAborted?: boolean,
+    isCancelled?: boolean,
+    isRolledBack?: boolean,
   } = {}) {
     this.isDispatched = params.isDispatched ?? false;
     this.hasFinishedMethodBefore = params.hasFinishedMethodBefore ?? false;
@@ -1374,6 +1781,9 @@ export class ActionStatus {
     this.hasFinishedMethodAfter = params.hasFinishedMethodAfter ?? false;
     this.originalError = params.originalError ?? null;
     this.wrappedError = params.wrappedError ?? null;
+    this.isAborted = params.isAborted ?? false;
+    this.isCancelled = params.isCancelled ?? false;
+    this.isRolledBack = params.isRolledBack ?? false;
   }
 
   copy(params: {
@@ -1383,6 +1793,9 @@ export class ActionStatus {
     hasFinishedMethodAfter?: boolean
     originalError?: any,
     wrappedError?: any,
+    isAborted?: boolean,
+    isCancelled?: boolean,
+    isRolledBack?: boolean,
   }) {
     return new ActionStatus({
       isDispatched: params.isDispatched ?? this.isDispatched,
@@ -1391,6 +1804,9 @@ export class ActionStatus {
       hasFinishedMethodAfter: params.hasFinishedMethodAfter ?? this.hasFinishedMethodAfter,
       originalError: params.originalError ?? this.originalError,
       wrappedError: params.wrappedError ?? this.wrappedError,
+      isAborted: params.isAborted ?? this.isAborted,
+      isCancelled: params.isCancelled ?? this.isCancelled,
+      isRolledBack: params.isRolledBack ?? this.isRolledBack,
     });
   }
 }
@@ -1523,6 +1939,13 @@ export class ActionStatus {
  * * `getValueFromState(state: St)`: Is a function that extracts the value from the given state.
  * * `reloadValue()`: Is a function that reloads the value from the cloud.
  * * `applyState(value: any, state: St)`: Is a function that applies the given value to the given state.
+ * * `saveValue(newValue: any)`: Is a function that saves the value in the cloud.
+ *
+ * Optionally, you can also provide `onConflict()` to decide what to do when the reloaded value
+ * is not the one that was saved, and `entityKey()` to track if the value is "pending sync".
+ *
+ * If the save fails, the action fails with the save error (after rolling back), so that the user
+ * is informed, for example with a `UserException`.
  */
 
 export abstract class OptimisticUpdate<St> extends KissAction<St> {
@@ -1554,7 +1977,38 @@ export abstract class OptimisticUpdate<St> extends KissAction<St> {
    * You should reload the `value` from the cloud.
    * If you want to skip this step, simply don't provide this method.
    */
-  abstract reloadValue(): Promise<any>;
+  reloadValue?(): Promise<any>;
+
+  /**
+   * Called when the value reloaded from the cloud (see `reloadValue`) is different from the value
+   * that was just saved. This means the value was changed in the cloud by someone else. You get:
+   *
+   * * `savedValue`: The value that was saved.
+   * * `reloadedValue`: The value that was reloaded.
+   * * `currentValue`: The value currently in the state, which may have changed in the meantime.
+   *
+   * You should return the value to apply to the state. By default, it's the reloaded value.
+   * For example, to keep the local changes:
+   *
+   * ```typescript
+   * onConflict(savedValue: any, reloadedValue: any, currentValue: any) {
+   *   return currentValue;
+   * }
+   * ```
+   */
+  onConflict(savedValue: any, reloadedValue: any, currentValue: any): any {
+    return reloadedValue;
+  }
+
+  /**
+   * Identifies the entity that is being saved. While the value is not yet saved, the entity is
+   * "pending sync", which you can check with `store.isPendingSync(entityKey)` or the
+   * `useIsPendingSync(entityKey)` hook, for example to show an "unsynced" badge. By default, it
+   * returns `null`, which means pending sync is not tracked.
+   */
+  entityKey(): any {
+    return null;
+  }
 
   async reduce() {
     // Updates the value optimistically.
@@ -1562,28 +2016,206 @@ export abstract class OptimisticUpdate<St> extends KissAction<St> {
     const action = new UpdateStateAction((state: St) => this.applyState(_newValue, state));
     this.dispatch(action);
 
+    const entityKey = this.entityKey();
+    if (entityKey !== null) this.store._addPendingSync(entityKey);
+
     try {
-      // Saves the new value to the cloud.
-      await this.saveValue(_newValue);
-    } catch (e) {
-      // If the state still contains our optimistic update, we roll back.
-      // If the state now contains something else, we DO NOT roll back.
-      if (this.getValueFromState(this.state) === _newValue) {
-        let initialValue = this.getValueFromState(this.initialState);
-        return (state: St) => this.applyState(initialValue, state); // Rollback.
-      }
-    } finally {
       try {
-        let reloadedValue = await this.reloadValue();
-        const action = new UpdateStateAction((state: St) => this.applyState(reloadedValue, state));
-        this.dispatch(action);
-      } catch (e) {
-        // If the reload was not implemented, do nothing.
+        // Saves the new value to the cloud.
+        await this.saveValue(_newValue);
+      } catch (error) {
+        // If the state still contains our optimistic update, we roll back.
+        // If the state now contains something else, we DO NOT roll back.
+        if (this.getValueFromState(this.state) === _newValue) {
+          let initialValue = this.getValueFromState(this.initialState);
+          this.dispatch(new UpdateStateAction((state: St) => this.applyState(initialValue, state))); // Rollback.
+        }
+
+        // The reload may still fix the state, but the action fails with the save error.
+        await this._reload(_newValue, false);
+        throw error;
       }
+
+      await this._reload(_newValue, true);
+      return null;
+    } finally {
+      if (entityKey !== null) this.store._removePendingSync(entityKey);
     }
+  }
+
+  // Reloads the value from the cloud, if `reloadValue` is provided, and applies it to the state.
+  // If the value was saved, but the reloaded value is different, `onConflict` decides the value.
+  // A failed reload is only logged: It doesn't roll back the state, and doesn't fail the action.
+  private async _reload(savedValue: any, wasSaved: boolean) {
+    if (this.reloadValue === undefined) return;
+
+    let reloadedValue: any;
+    try {
+      reloadedValue = await this.reloadValue();
+    } catch (reloadError) {
+      Store.log(`The reloadValue() method of the action ${this} threw an error: ${reloadError}.`);
+      return;
+    }
+
+    if (wasSaved && reloadedValue !== savedValue) {
+      reloadedValue = this.onConflict(savedValue, reloadedValue, this.getValueFromState(this.state));
+    }
+
+    this.dispatch(new UpdateStateAction((state: St) => this.applyState(reloadedValue, state)));
+  }
+}
+
+/**
+ * One part of the state changed by an `OptimisticCommand`.
+ *
+ * The `key` identifies the part, so that commands that change the same part can tell each other
+ * apart. It's compared with `===`, so use some immutable value like a string or a number.
+ */
+export type OptimisticPart<St, T = any> = {
+  /** Identifies the part of the state. For example: `'liked-' + postId`. */
+  key: any,
+  /** Extracts the part from the given state. */
+  get: (state: St) => T,
+  /** Returns a new state, with the part changed to the given value. */
+  set: (state: St, value: T) => St,
+  /** The new value of the part, applied optimistically. */
+  value: T,
+};
+
+/**
+ * For Kiss internal use only.
+ * An `OptimisticCommand` that was applied optimistically, but is not yet saved. For each part,
+ * keeps the value it had before (which is the value the part is rolled back to).
+ */
+export type OptimisticCommandRecord<St> = {
+  entries: { part: OptimisticPart<St>, before: any }[],
+  saved: Promise<void>,
+};
+
+/**
+ * Like `OptimisticUpdate`, but applies a patch that may change several parts of the state at once,
+ * and supports several commands against the same entity. You provide:
+ *
+ * * `optimisticParts()`: The parts of the state to change, and their new values.
+ * * `save()`: Saves the command in the cloud.
+ * * `entityKey()`: Optional. Commands with the same entity key are saved one after the other.
+ *
+ * For example, to like a post, which changes both the `liked` flag and the likes count:
+ *
+ * ```typescript
+ * class LikePost extends OptimisticCommand<State> {
+ *    constructor(readonly postId: number, readonly like: boolean) { super(); }
+ *
+ *    entityKey() { return 'post-' + this.postId; }
+ *
+ *    optimisticParts() {
+ *      const post = this.state.posts.get(this.postId);
+ *      return [
+ *        {
+ *          key: 'liked-' + this.postId,
+ *          get: (state: State) => state.posts.get(this.postId).liked,
+ *          set: (state: State, liked: boolean) => state.withPost(this.postId, {liked}),
+ *          value: this.like,
+ *        },
+ *        {
+ *          key: 'likes-' + this.postId,
+ *          get: (state: State) => state.posts.get(this.postId).likes,
+ *          set: (state: State, likes: number) => state.withPost(this.postId, {likes}),
+ *          value: post.likes + (this.like ? 1 : -1),
+ *        },
+ *      ];
+ *    }
+ *
+ *    save() { return api.likePost(this.postId, this.like); }
+ * }
+ * ```
+ *
+ * When dispatched, all parts are applied to the state right away. Then:
+ *
+ * * If the save succeeds, the state is kept.
+ *
+ * * If the save fails, the action fails with the error, and each part is rolled back to the
+ *   value it had before, but only if nobody else changed that part since. If some other command
+ *   with the same entity key, dispatched after this one, is still waiting to be saved and changed
+ *   the same part, that part is left alone, and that other command will roll it back further if
+ *   it also fails. This means a quick "like, unlike, like" sequence always ends in the right state,
+ *   no matter which of the saves fail.
+ */
+export abstract class OptimisticCommand<St> extends KissAction<St> {
+
+  /**
+   * You should return here the parts of the state you want to change, and their new values.
+   * You can access the fields of the action, and the state.
+   */
+  abstract optimisticParts(): OptimisticPart<St>[];
+
+  /**
+   * You should save the command in the cloud. If it throws an error, the command is rolled back.
+   */
+  abstract save(): Promise<void>;
 
+  /**
+   * Commands with the same entity key are saved one after the other, in the order they were
+   * dispatched. While they are not yet saved, the entity is "pending sync" (see
+   * `store.isPendingSync`). By default, it returns `null`, which means the command is saved
+   * right away, and pending sync is not tracked.
+   */
+  entityKey(): any {
     return null;
   }
+
+  async reduce() {
+    const entries = this.optimisticParts().map(part => ({part, before: part.get(this.state)}));
+
+    // Updates all parts optimistically.
+    this.dispatch(new UpdateStateAction((state: St) =>
+      entries.reduce((newState, {part}) => part.set(newState, part.value), state)));
+
+    const entityKey = this.entityKey();
+    if (entityKey !== null) this.store._addPendingSync(entityKey);
+
+    const pending = (entityKey === null) ? [] : this.store._optimisticCommandsFor(entityKey);
+    const previous: OptimisticCommandRecord<St> | undefined = pending[pending.length - 1];
+
+    let resolveSaved!: () => void;
+    const record: OptimisticCommandRecord<St> = {entries, saved: new Promise(resolve => resolveSaved = resolve)};
+    pending.push(record);
+
+    try {
+      // Waits until the previous commands of the same entity are saved.
+      if (previous !== undefined) await previous.saved;
+
+      await this.save();
+      return null;
+    } catch (error) {
+      this.dispatch(new UpdateStateAction((state: St) => _rollback(state, record, pending)));
+      throw error;
+    } finally {
+      pending.splice(pending.indexOf(record), 1);
+      if (entityKey !== null) {
+        this.store._removeOptimisticCommandsIfEmpty(entityKey);
+        this.store._removePendingSync(entityKey);
+      }
+      resolveSaved();
+    }
+  }
+}
+
+// Rolls back the parts of the `record` that nobody changed since. If a later pending command
+// changed the same part, it will roll back to the value that part had before the `record`.
+function _rollback<St>(state: St, record: OptimisticCommandRecord<St>, pending: OptimisticCommandRecord<St>[]): St {
+  const later = pending.slice(pending.indexOf(record) + 1);
+
+  for (const {part, before} of record.entries) {
+    const laterEntry = later
+      .flatMap(other => other.entries)
+      .find(other => other.part.key === part.key);
+
+    if (laterEntry !== undefined) laterEntry.before = before;
+    else if (part.get(state) === part.value) state = part.set(state, before);
+  }
+
+  return state;
 }
 
 /**
@@ -1621,7 +2253,10 @@ export type Retry = {
   multiplier?: number,
   maxRetries?: number,
   maxDelay?: number,
-  unlimitedRetries?: boolean
+  unlimitedRetries?: boolean,
+  jitter?: number,
+  shouldRetry?: (error: any, attempt: number) => boolean,
+  onRetry?: (error: any, attempt: number, delay: number) => void,
 };
 
 export type RetryOptions = {
@@ -1632,7 +2267,29 @@ export type RetryOptions = {
   multiplier: number,
   maxRetries: number,
   maxDelay: number,
-  unlimitedRetries: boolean
+  unlimitedRetries: boolean,
+  jitter: number,
+  shouldRetry?: (error: any, attempt: number) => boolean,
+  onRetry?: (error: any, attempt: number, delay: number) => void,
+};
+
+/**
+ * The state of an action that is retrying. See `Store.retryState()` and `useRetryState()`.
+ */
+export type RetryState = {
+  /** The retry attempt that will happen next. The first retry is attempt `1`. */
+  attempt: number,
+  /** The maximum number of retries, or `-1` if unlimited. */
+  maxRetries: number,
+  /** The delay in milliseconds before the next retry, or `0` if the retry is running. */
+  delay: number,
+  /**
+   * When the next retry will happen (or happened, if it's running), in milliseconds since the
+   * epoch (like `Date.now()`).
+   */
+  nextRetryAt: number,
+  /** The error that caused the retry. */
+  error: any,
 };
 
 /** The `UserException` is a special type of error that Kiss automatically
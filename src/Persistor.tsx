@@ -77,6 +77,28 @@ export abstract class Persistor<St> {
    */
   abstract saveInitialState(state: St): Promise<void>;
 
+  /**
+   * Function `readOfflineActions` should read the actions saved by `saveOfflineActions`.
+   * It's called once, when the store is created, so that actions that were waiting for the
+   * internet connection (see `checkInternet` option `ifOffline: 'queue'`) survive app restarts.
+   *
+   * The default implementation doesn't persist these actions, and returns an empty list.
+   * Override both `readOfflineActions` and `saveOfflineActions` to persist them.
+   */
+  async readOfflineActions(): Promise<KissAction<St>[]> {
+    return [];
+  }
+
+  /**
+   * Function `saveOfflineActions` should save the given `actions`, replacing any previously
+   * saved ones. It's called whenever the actions waiting for the internet connection change.
+   *
+   * Note you'll have to serialize the actions yourself. Fields that start with `_` don't need
+   * to be saved, since they are reset before the actions are dispatched again.
+   */
+  async saveOfflineActions(_actions: KissAction<St>[]): Promise<void> {
+  }
+
   /**
    * The default throttle is 2 seconds (2000 milliseconds).
    * Return `null` to turn off the throttle.
@@ -129,6 +151,16 @@ export class PersistorPrinterDecorator<St> implements Persistor<St> {
     return this._persistor.saveInitialState(state);
   }
 
+  async readOfflineActions(): Promise<KissAction<St>[]> {
+    Store.log('Persistor: read offline actions.');
+    return this._persistor.readOfflineActions();
+  }
+
+  async saveOfflineActions(actions: KissAction<St>[]): Promise<void> {
+    Store.log(`Persistor: save offline actions: ${actions}`);
+    return this._persistor.saveOfflineActions(actions);
+  }
+
   get throttle(): number | null {
     return this._persistor.throttle;
   }
@@ -154,6 +186,14 @@ export class PersistorDummy<St> implements Persistor<St | null> {
     return;
   }
 
+  async readOfflineActions(): Promise<KissAction<St | null>[]> {
+    return [];
+  }
+
+  async saveOfflineActions(_actions: KissAction<St | null>[]): Promise<void> {
+    return;
+  }
+
   get throttle(): number | null {
     return null;
   }
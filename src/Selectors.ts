@@ -0,0 +1,163 @@
+/**
+ * A selector returns a part of the state, or some value derived from it.
+ */
+export type Selector<St, T> = (state: St) => T;
+
+/**
+ * A selector created with `createSelector`, which remembers its last result.
+ */
+export interface MemoizedSelector<St, T> extends Selector<St, T> {
+
+  /**
+   * How many times the result was computed. Useful for testing.
+   */
+  readonly recomputations: number;
+
+  /**
+   * Forgets the last result, so that the next call computes it again.
+   */
+  clearCache(): void;
+}
+
+type SelectorResults<S extends readonly Selector<any, any>[]> = {
+  [K in keyof S]: S[K] extends Selector<any, infer R> ? R : never
+};
+
+type SelectorState<S extends readonly Selector<any, any>[]> =
+  S extends readonly [Selector<infer St, any>, ...any[]] ? St : never;
+
+/**
+ * Creates a memoized selector that derives a value from the results of the given input selectors.
+ * The `combiner` only runs again when some input selector returns a different value (compared
+ * with `!==`). When called again with the same state, the input selectors don't even run.
+ *
+ * ```ts
+ * const selectCompletedTodos = createSelector(
+ *   [(state: State) => state.todos],
+ *   (todos) => todos.filter(todo => todo.completed)
+ * );
+ *
+ * const selectCompletedCount = createSelector(
+ *   [selectCompletedTodos],
+ *   (completedTodos) => completedTodos.length
+ * );
+ * ```
+ *
+ * Create your memoized selectors once, outside of components, and use them with `useSelect`.
+ * Since the result is shared, all components that use the same selector get the same value,
+ * and the `combiner` runs only once per state change:
+ *
+ * ```ts
+ * const completedTodos = useSelect(selectCompletedTodos);
+ * ```
+ */
+export function createSelector<S extends readonly Selector<any, any>[], T>(
+  inputSelectors: readonly [...S],
+  combiner: (...inputs: SelectorResults<S>) => T
+): MemoizedSelector<SelectorState<S>, T> {
+  type St = SelectorState<S>;
+
+  let hasResult = false;
+  let lastState: St;
+  let lastInputs: any[] = [];
+  let lastResult: T;
+  let recomputations = 0;
+
+  const selector = (state: St): T => {
+    if (hasResult && state === lastState) return lastResult;
+
+    const inputs = inputSelectors.map((inputSelector) => inputSelector(state));
+    lastState = state;
+
+    if (hasResult && inputs.every((input, index) => input === lastInputs[index])) return lastResult;
+
+    lastInputs = inputs;
+    lastResult = combiner(...inputs as SelectorResults<S>);
+    hasResult = true;
+    recomputations++;
+    return lastResult;
+  };
+
+  Object.defineProperty(selector, 'recomputations', {get: () => recomputations});
+
+  return Object.assign(selector, {
+    clearCache() {
+      hasResult = false;
+      lastInputs = [];
+    },
+  }) as MemoizedSelector<St, T>;
+}
+
+/**
+ * Compares two selected values. Returns true if they are equal, in which case
+ * the component using the selector doesn't rebuild.
+ */
+export type EqualityFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * Returns true if both values are identical (`===`), or if they are arrays with identical
+ * items, or objects of the same class with identical own enumerable properties.
+ * Use it with selectors that return a new array or object each time:
+ *
+ * ```ts
+ * const {name, age} = useSelect((state: State) => ({name: state.name, age: state.age}), shallowEqual);
+ * ```
+ */
+export function shallowEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) return true;
+  if (!_isComparableObject(a, b)) return false;
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => Object.is(item, b[index]));
+  }
+
+  const keysA = Object.keys(a);
+  return (keysA.length === Object.keys(b).length)
+    && keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+}
+
+/**
+ * Returns true if both values are structurally equal, comparing arrays, objects, `Map`s, `Set`s
+ * and `Date`s recursively. Objects must be of the same class. This is more expensive than
+ * `shallowEqual`, so prefer the latter when possible.
+ *
+ * ```ts
+ * const filters = useSelect((state: State) => state.search.toFilters(), deepEqual);
+ * ```
+ */
+export function deepEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) return true;
+  if (!_isComparableObject(a, b)) return false;
+
+  if (a instanceof Date) return a.getTime() === b.getTime();
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+
+  if (a instanceof Map) {
+    if (a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (!b.has(key) || !deepEqual(value, b.get(key))) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Set) {
+    if (a.size !== b.size) return false;
+    for (const value of a) {
+      if (!b.has(value)) return false;
+    }
+    return true;
+  }
+
+  const keysA = Object.keys(a);
+  return (keysA.length === Object.keys(b).length)
+    && keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+}
+
+function _isComparableObject(a: any, b: any): boolean {
+  return (typeof a === 'object') && (a !== null)
+    && (typeof b === 'object') && (b !== null)
+    && (Object.getPrototypeOf(a) === Object.getPrototypeOf(b));
+}
@@ -1,17 +1,23 @@
 import React, { createContext, useState } from 'react';
 import { UserException } from './UserException';
 import { Persistor } from './Persistor';
+import { ConnectivityMonitor, ConnectivityMonitorBrowser } from './ConnectivityMonitor';
 import {
   ActionStatus,
   AsyncReducer,
   AsyncReducerResult,
   KissAction,
+  OptimisticCommandRecord,
   ReduxReducer,
-  RetryOptions
+  RetryOptions,
+  RetryState,
+  UpdateStateAction
 } from './KissAction';
 import { ProcessPersistence } from './ProcessPersistence';
-import { StoreException, TimeoutException } from './StoreException';
+import { AtomicDispatchException, StoreException, TimeoutException } from './StoreException';
 import { UnmodifiableSetView } from "./UnmodifiableSetView";
+import { EqualityFn } from './Selectors';
+import { delayMillis } from "./utils";
 
 interface ConstructorParams<St> {
 
@@ -59,6 +65,26 @@ interface ConstructorParams<St> {
    */
   persistor?: Persistor<St>;
 
+  /**
+   * The connectivity monitor tells the store if there is an internet connection. It's used by
+   * actions with `checkInternet`, and by the `useIsOnline()` hook. When the connection comes back,
+   * actions queued while offline (see `checkInternet` option `ifOffline: 'queue'`) are
+   * dispatched again.
+   *
+   * If not provided, the `ConnectivityMonitorBrowser` is used, which works in web environments.
+   * For tests, use the `ConnectivityMonitorFake`.
+   *
+   * The store only subscribes to the monitor when needed: when `store.isOnline` (or the
+   * `useIsOnline()` hook) is first read, or when some action waits in the offline queue.
+   */
+  connectivityMonitor?: ConnectivityMonitor;
+
+  /**
+   * The maximum number of steps that can be undone with `store.undo()`. When there are more,
+   * the oldest ones are forgotten. The default is 100. See `KissAction.undoable`.
+   */
+  maxUndoSteps?: number;
+
   /**
    * The `logger` is a function that Kiss uses when it calls `Store.log()`
    * to log information. It's set up during the creation of the store. For example:
@@ -110,7 +136,7 @@ interface ConstructorParams<St> {
    * });
    * ```
    */
-  logStateChanges: boolean;
+  logStateChanges?: boolean;
 
   /**
    * Global function to wrap errors.
@@ -261,22 +287,6 @@ export function createStore<St>(params: ConstructorParams<St>): Store<St> {
   return new Store<St>(params);
 }
 
-class RefState<St, T> {
-  selectorAndValueAndSetValue: [(state: St) => T, T, React.Dispatch<React.SetStateAction<T>>];
-
-  constructor(selectorAndValueAndSetValue: [(state: St) => T, T, React.Dispatch<React.SetStateAction<T>>]) {
-    this.selectorAndValueAndSetValue = selectorAndValueAndSetValue;
-  }
-}
-
-class RefStore<St, T> {
-  selectorAndValueAndSetValue: [(store: Store<St>) => T, T, React.Dispatch<React.SetStateAction<T>>];
-
-  constructor(selectorAndValueAndSetValue: [(store: Store<St>) => T, T, React.Dispatch<React.SetStateAction<T>>]) {
-    this.selectorAndValueAndSetValue = selectorAndValueAndSetValue;
-  }
-}
-
 /**
  * The store holds the state of the application and allows the state to be updated
  * by dispatching actions. The store is also responsible for showing user exceptions
@@ -287,59 +297,85 @@ class RefStore<St, T> {
  */
 export class Store<St> {
 
-  public _refStateHooks: Set<React.RefObject<RefState<St, any> | undefined>> = new Set();
-  public _refStoreHooks: Set<React.RefObject<RefStore<St, any> | undefined>> = new Set();
-
-  // Rebuilds components because of STATE changes.
-  //
-  // We save in the ref:
-  // - The selector
-  // - The currently selected value
-  // - The setValue function
-  //
-  // Whenever the state changes, the store will:
-  // 1. Retrieve all refs
-  // 2. Apply each selector to the current state to calculate the selected value.
-  // 3. And compare the selected value with the last selected value.
-  // 4. If it changed, it calls setValue.
-  private _rebuildFromStateHooks() {
-    this._refStateHooks.forEach((hookRef) => {
-      if (hookRef.current) {
-        const [selector, currentValue, setValue] = hookRef.current.selectorAndValueAndSetValue;
-        const newSelectedValue = selector(this._state);
-        if (newSelectedValue !== currentValue) {
-          setValue(newSelectedValue);
-          hookRef.current.selectorAndValueAndSetValue[1] = newSelectedValue; // Update the current value in the ref
-        }
-      }
-    });
+  // The listeners registered with `subscribe`. The hooks use them to rebuild the components.
+  private readonly _subscribers: Set<() => void> = new Set();
+
+  /**
+   * Registers a `listener` that is called whenever the state changes, and also whenever the
+   * values returned by store methods like `isWaiting`, `isFailed` and `exceptionFor` may have
+   * changed. Returns a function that removes the listener.
+   *
+   * ```ts
+   * const unsubscribe = store.subscribe(() => console.log(store.state));
+   * ...
+   * unsubscribe();
+   * ```
+   *
+   * Components don't need this, since the hooks like `useSelect` already subscribe to the store
+   * (using React's `useSyncExternalStore`). It's useful to connect the store to code outside of
+   * React, or to other UI libraries. To listen only to some part of the state, see `subscribeTo`.
+   */
+  subscribe(listener: () => void): () => void {
+    this._subscribers.add(listener);
+    return () => {
+      this._subscribers.delete(listener);
+    };
   }
 
-  /// Rebuilds components because of `isWaiting`, `isFailed`, `exceptionFor` and `clearExceptionFor`.
-  //
-  // We save in the ref:
-  // - The selector
-  // - The currently selected value
-  // - The setValue function
-  //
-  // Whenever the store method results changes, the store will:
-  // 1. Retrieve all refs
-  // 2. Apply each selector to the current store to calculate the selected value.
-  // 3. And compare the selected value with the last selected value.
-  // 4. If it changed, it calls setValue.
-  private _rebuildFromStoreHooks() {
-    this._refStoreHooks.forEach((hookRef) => {
-      if (hookRef.current) {
-        const [selector, currentValue, setValue] = hookRef.current.selectorAndValueAndSetValue;
-        const newSelectedValue = selector(this);
-        if (newSelectedValue !== currentValue) {
-          setValue(newSelectedValue);
-          hookRef.current.selectorAndValueAndSetValue[1] = newSelectedValue; // Update the current value in the ref
-        }
-      }
+  /**
+   * Registers a `listener` that is called whenever the value returned by the `selector` changes,
+   * with the new and the previous selected values. Returns a function that removes the listener.
+   *
+   * ```ts
+   * const unsubscribe = store.subscribeTo(
+   *   (state: State) => state.cart.items.length,
+   *   (count, previousCount) => analytics.track('cart-size', {count, previousCount})
+   * );
+   * ```
+   *
+   * By default, the selected values are compared with `!==`. If your selector returns a new array
+   * or object each time, pass an `equalityFn`, like `shallowEqual`, `deepEqual`, or your own.
+   *
+   * The listener is not called for the current value, only for later changes.
+   */
+  subscribeTo<T>(
+    selector: (state: St) => T,
+    listener: (value: T, previousValue: T) => void,
+    equalityFn?: EqualityFn<T>
+  ): () => void {
+    let lastState = this._state;
+    let lastValue = selector(lastState);
+
+    return this.subscribe(() => {
+      if (this._state === lastState) return;
+      lastState = this._state;
+
+      const value = selector(lastState);
+      const isEqual = (equalityFn === undefined) ? (value === lastValue) : equalityFn(lastValue, value);
+      if (isEqual) return;
+
+      const previousValue = lastValue;
+      lastValue = value;
+      listener(value, previousValue);
     });
   }
 
+  // Rebuilds components because of STATE changes, or because of changes in store methods
+  // like `isWaiting`, `isFailed`, `exceptionFor` and `clearExceptionFor`. Each hook selects
+  // its value again, and the component only rebuilds if that value changed.
+  private _notifySubscribers() {
+    // Inside a `batch`, the subscribers are notified only once, when it ends.
+    if (this._batch !== null) {
+      this._batch.mustNotify = true;
+      return;
+    }
+
+    // Copy, because listeners may unsubscribe while being notified.
+    for (const listener of Array.from(this._subscribers)) {
+      listener();
+    }
+  }
+
   /**
    * The `Store.log()` is a static function that Kiss uses internally to log information.
    * If you want, you can also use it yourself, like this:
@@ -401,9 +437,17 @@ export class Store<St> {
    * ```
    *
    * Set this back to `false` to restart the store accepting new action dispatches.
+   *
+   * While the store is shut down, it also stops listening to the `connectivityMonitor`.
    */
   public setShutDown(shutDown: boolean) {
     this._shutDown = shutDown;
+
+    if (shutDown) {
+      this._unsubscribeConnectivityMonitor?.();
+      this._unsubscribeConnectivityMonitor = null;
+    }
+    else if (this._usesConnectivityMonitor) this._listenToConnectivityMonitor();
   }
 
   /**
@@ -445,7 +489,8 @@ export class Store<St> {
   /**
    * The actions that have failed recently.
    * When an action fails by throwing an `UserException`, it's added to this map
-   * (indexed by its action type), and then removed when it's dispatched.
+   * (indexed by its action type, and then by its `actionKey()`), and then removed when
+   * it's dispatched.
    *
    * Use `isFailed`, `exceptionFor` and `clearExceptionFor` to know if you should display
    * some error message due to an action failure.
@@ -454,7 +499,7 @@ export class Store<St> {
    * as a message in the UI. If you don't want to show the dialog you can use the `noDialog`
    * getter in the error message: `throw UserException('Invalid input').noDialog`.
    */
-  private readonly _failedActions: Map<new (...args: any[]) => KissAction<St>, KissAction<St>>;
+  private readonly _failedActions: Map<new (...args: any[]) => KissAction<St>, Map<any, KissAction<St>>>;
 
   /**
    * Async actions that we may put into `_failedActions`.
@@ -478,6 +523,105 @@ export class Store<St> {
     resolve: (actions: Set<KissAction<St>>, triggerAction: KissAction<St> | null) => void
   }> = [];
 
+  /**
+   * Helps implement the `debounce` feature. For each lock key (see `KissAction.lockKey()`),
+   * keeps the ticket of the most recently dispatched debounced action.
+   */
+  private readonly _debounceLocks: Map<any, number> = new Map();
+  private _debounceTicket = 0;
+
+  /**
+   * Helps implement the `throttle` feature. For each lock key (see `KissAction.lockKey()`),
+   * keeps the throttled action that last ran, and the time (in milliseconds) when it started.
+   */
+  private readonly _throttleLocks: Map<any, { action: KissAction<St>, time: number }> = new Map();
+
+  /**
+   * Helps implement the `freshFor` feature. For each action type and `actionKey()`, keeps the
+   * action that last ran, and the time (in milliseconds since the epoch) when it stops being
+   * fresh. This time is `null` while the action is still running.
+   */
+  private readonly _freshness: Map<new (...args: any[]) => KissAction<St>, Map<any, {
+    action: KissAction<St>,
+    expiresAt: number | null
+  }>> = new Map();
+
+  /**
+   * Helps implement the `timeoutMillis` feature. For each action that may time out,
+   * keeps the time (in milliseconds since the epoch) when it times out.
+   */
+  private readonly _timeoutDeadlines: WeakMap<KissAction<St>, number> = new WeakMap();
+
+  /**
+   * Helps implement `retryState`. For each action type, keeps the retry state of the
+   * retrying action of that type, if any.
+   */
+  private readonly _retryStates: Map<new (...args: any[]) => KissAction<St>, {
+    action: KissAction<St>,
+    retryState: RetryState
+  }> = new Map();
+
+  /**
+   * Helps implement the `concurrency = 'queue'` feature. Actions that are waiting for an
+   * equivalent action to finish, in the order they were dispatched.
+   */
+  private _queuedActions: KissAction<St>[] = [];
+
+  /**
+   * Helps implement the `checkInternet` option `ifOffline: 'queue'`. Actions that were aborted
+   * because there was no internet, in the order they were dispatched. This array is never
+   * mutated, but replaced, so that `usePendingOfflineActions()` can detect changes.
+   */
+  private _offlineActions: KissAction<St>[] = [];
+
+  /**
+   * Helps implement `OptimisticCommand`. For each entity key, keeps the commands that were
+   * applied optimistically but are not yet saved, in the order they were dispatched.
+   */
+  private readonly _optimisticCommands: Map<any, OptimisticCommandRecord<St>[]> = new Map();
+
+  /**
+   * Helps implement `isPendingSync`. For each entity key, how many optimistic updates of that
+   * entity are not yet saved. See `OptimisticUpdate.entityKey()`.
+   */
+  private readonly _pendingSync: Map<any, number> = new Map();
+
+  /**
+   * Helps implement `undo` and `redo`. The states from before each undoable step, and the
+   * states that were undone and can be redone. In both, the most recent one is the last.
+   */
+  private _undoStack: St[] = [];
+  private _redoStack: St[] = [];
+  private readonly _maxUndoSteps: number;
+
+  // While `undoTransaction` is running, only its first undoable step is recorded.
+  private _undoTransactionDepth = 0;
+  private _undoTransactionHasStep = false;
+
+  /**
+   * Helps implement `batch`. While it's running, keeps the state from before the batch started,
+   * and the actions that changed the state, so that the notifications can be done when it ends.
+   */
+  private _batch: {
+    depth: number,
+    prevState: St,
+    lastAction: KissAction<St> | null,
+    lastPersistableAction: KissAction<St> | null,
+    mustNotify: boolean,
+  } | null = null;
+
+  private readonly _persistor: Persistor<St> | null;
+  private readonly _connectivityMonitor: ConnectivityMonitor;
+  private _unsubscribeConnectivityMonitor: (() => void) | null = null;
+
+  // True once the connectivity monitor is needed. The store only subscribes to it from then on,
+  // so that stores that never use it (for example, in tests or server-side rendering) don't keep
+  // its listeners alive.
+  private _usesConnectivityMonitor = false;
+
+  // The last known connection status, according to the connectivity monitor.
+  private _isOnline = true;
+
   private readonly _processPersistence: ProcessPersistence<St> | null;
   private _dispatchCount = 0;
 
@@ -583,6 +727,8 @@ export class Store<St> {
                 initialState,
                 showUserException,
                 persistor,
+                connectivityMonitor,
+                maxUndoSteps,
                 globalWrapError,
                 actionObserver,
                 stateObserver,
@@ -594,6 +740,9 @@ export class Store<St> {
     this._state = initialState;
     this._showUserException = showUserException || this._defaultShowUserException;
     this._processPersistence = (persistor === undefined) ? null : new ProcessPersistence(persistor, initialState);
+    this._persistor = persistor ?? null;
+    this._connectivityMonitor = connectivityMonitor ?? new ConnectivityMonitorBrowser();
+    this._maxUndoSteps = maxUndoSteps ?? 100;
     this._globalWrapError = globalWrapError;
     this._actionObserver = actionObserver;
     this._stateObserver = stateObserver;
@@ -601,7 +750,7 @@ export class Store<St> {
     this.userExceptionsQueue = [];
     this._actionsInProgress = new Set();
     this._awaitableActions = new Set();
-    this._failedActions = new Map<new (...args: any[]) => KissAction<St>, KissAction<St>>();
+    this._failedActions = new Map<new (...args: any[]) => KissAction<St>, Map<any, KissAction<St>>>();
     this._actionsWeCanCheckFailed = new Set();
     Store.log = logger || this._defaultLogger;
     this._logStateChanges = logStateChanges ?? true;
@@ -609,6 +758,55 @@ export class Store<St> {
     if (this._processPersistence != null) {
       this._processPersistence.readInitialState(this, initialState).then();
     }
+
+    if (this._persistor !== null) this._readOfflineActions().then();
+  }
+
+  // Subscribes to the connectivity monitor, unless already subscribed, or the store is shut down.
+  private _listenToConnectivityMonitor() {
+    this._usesConnectivityMonitor = true;
+    if (this._shutDown || this._unsubscribeConnectivityMonitor !== null) return;
+
+    let hasChanged = false;
+
+    this._unsubscribeConnectivityMonitor = this._connectivityMonitor.subscribe((isConnected) => {
+      hasChanged = true;
+      this._setIsOnline(isConnected);
+      if (isConnected) this.replayOfflineActions();
+    });
+
+    // The initial status is ignored if the status already changed while we waited for it.
+    this._connectivityMonitor.isConnected().then(
+      (isConnected) => {
+        if (!hasChanged) this._setIsOnline(isConnected);
+      },
+      (error) => Store.log('Error reading the connection status:' + error + '.'),
+    );
+  }
+
+  private _setIsOnline(isOnline: boolean) {
+    if (this._isOnline === isOnline) return;
+    this._isOnline = isOnline;
+    this._notifySubscribers();
+  }
+
+  // Reads the actions that were waiting for the internet connection when the app was closed,
+  // and dispatches them if the internet connection is available.
+  private async _readOfflineActions() {
+    let actions: KissAction<St>[];
+    try {
+      actions = await this._persistor!.readOfflineActions();
+    } catch (error) {
+      Store.log('Error reading offline actions:' + error + '.');
+      return;
+    }
+
+    if (actions.length === 0) return;
+    this._offlineActions = [...actions, ...this._offlineActions];
+    this._notifySubscribers();
+    this._listenToConnectivityMonitor();
+
+    if (await this._connectivityMonitor.isConnected()) this.replayOfflineActions();
   }
 
   get state(): St {
@@ -619,6 +817,26 @@ export class Store<St> {
     return this._dispatchCount;
   }
 
+  /**
+   * The connectivity monitor passed to the store constructor,
+   * or the default `ConnectivityMonitorBrowser`.
+   */
+  get connectivityMonitor(): ConnectivityMonitor {
+    return this._connectivityMonitor;
+  }
+
+  /**
+   * The last known connection status, according to the connectivity monitor.
+   * It's `true` until the monitor says otherwise. See also the `useIsOnline()` hook.
+   *
+   * The store starts listening to the monitor the first time this is read, and the monitor's
+   * status is read asynchronously, so the first value is always `true`.
+   */
+  get isOnline(): boolean {
+    this._listenToConnectivityMonitor();
+    return this._isOnline;
+  }
+
   /**
    * Dispatches the action to the Redux store, to potentially change the state.
    *
@@ -643,12 +861,13 @@ export class Store<St> {
     // Note: It's up to the developer to make sure `abortDispatch` doesn't throw any errors.
     try {
       if (mockedActionOrAction.abortDispatch()) return;
-      if (mockedActionOrAction.nonReentrant && this.isWaiting(mockedActionOrAction.constructor as new (...args: any[]) => KissAction<St>)) return;
     } catch (error) {
       Store.log(`Method '${action}.abortDispatch()' has thrown an error: ${error}.`);
       return;
     }
 
+    if (this._isAbortedBeforeDispatch(mockedActionOrAction)) return;
+
     // 3) If the action is mocked to return another action, we dispatch the mock.
     this._processDispatch(mockedActionOrAction, false);
   }
@@ -687,6 +906,8 @@ export class Store<St> {
       return Promise.resolve(new ActionStatus());
     }
 
+    if (this._isAbortedBeforeDispatch(mockedActionOrAction)) return Promise.resolve(mockedActionOrAction.status);
+
     // 3) If the action is mocked to return another action, we dispatch the mock.
     let promise = mockedActionOrAction._createPromise();
     this._processDispatch(mockedActionOrAction, false);
@@ -753,6 +974,110 @@ export class Store<St> {
     return actions;
   }
 
+  /**
+   * Dispatches the given actions one after the other, waiting for each one to finish before
+   * dispatching the next. This is all-or-nothing: If any action fails, the following actions
+   * are not dispatched, the state is restored to what it was before the group started, and the
+   * returned Promise rejects with an `AtomicDispatchException`. The status of each action that
+   * was dispatched will then have `isRolledBack` true.
+   *
+   * An action that does not run to completion also fails the group. For example, an action
+   * aborted by `freshFor`, `throttle` or `nonReentrant`, or dropped by its `concurrency`.
+   * If the state could not be restored (for example, because the store was shut down), no action
+   * is marked as rolled back, and the exception has `isRolledBack` false.
+   *
+   * ```ts
+   * try {
+   *   await store.dispatchAtomically([new ReserveStock(cart), new ChargeCard(cart), new CreateOrder(cart)]);
+   * } catch (error) {
+   *   // The state is as it was before the checkout started.
+   * }
+   * ```
+   *
+   * Note: Restoring the state also discards changes made by other actions while the group was
+   * running. If the group succeeds, the Promise resolves with the same list of actions.
+   *
+   * See also:
+   * - `dispatchAndWaitAll` which dispatches all given actions in parallel, and returns a Promise.
+   */
+  async dispatchAtomically(actions: KissAction<St>[]): Promise<KissAction<St>[]> {
+    const stateBefore = this._state;
+    const dispatched: KissAction<St>[] = [];
+
+    for (let action of actions) {
+      let status = await this.dispatchAndWait(action);
+      if (status.isDispatched) dispatched.push(action);
+
+      if (!status.isCompletedOk) {
+        const error = status.isCompletedFailed
+          ? (status.wrappedError ?? status.originalError)
+          : new StoreException(`The action ${action} did not run to completion.`);
+
+        // The rollback may itself not run (for example, if the store was shut down).
+        const rollback = new UpdateStateAction<St>(() => stateBefore);
+        this.dispatch(rollback);
+        const isRolledBack = rollback.status.isCompletedOk;
+
+        if (isRolledBack)
+          for (let dispatchedAction of dispatched) dispatchedAction._changeStatus({isRolledBack: true});
+
+        throw new AtomicDispatchException(actions, [error], isRolledBack);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Runs the given function, and coalesces the state changes it makes into a single notification.
+   * State changes are still applied immediately, but the components (hooks), the `stateObserver`
+   * and the persistor are notified only once, when the batch ends. This is useful when you
+   * dispatch lots of actions at once, for example in a bulk import:
+   *
+   * ```ts
+   * store.batch(() => {
+   *   for (let item of items) store.dispatch(new ImportItem(item));
+   * });
+   * ```
+   *
+   * When the batch ends, the `stateObserver` is called with the last action that changed the
+   * state, the state from before the batch, and the state after it.
+   *
+   * If the function returns a Promise, the batch ends when the Promise finishes, and state changes
+   * made by async actions while it's running are also coalesced. Returns what the function returns.
+   */
+  batch<T>(fn: () => T): T {
+    if (this._batch === null) {
+      this._batch = {depth: 0, prevState: this._state, lastAction: null, lastPersistableAction: null, mustNotify: false};
+    }
+    this._batch.depth++;
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      this._endBatch();
+      throw error;
+    }
+
+    if (result instanceof Promise) return result.finally(() => this._endBatch()) as T;
+    this._endBatch();
+    return result;
+  }
+
+  private _endBatch() {
+    const batch = this._batch!;
+    if (--batch.depth > 0) return;
+    this._batch = null;
+
+    if (batch.mustNotify) this._notifySubscribers();
+
+    if (batch.lastAction === null || batch.prevState === this._state) return;
+
+    this._stateObserver?.(batch.lastAction, batch.prevState, this._state, null, this._dispatchCount);
+    this._processPersistence?.process(batch.lastPersistableAction ?? batch.lastAction, this._state);
+  }
+
   /**
    * Dispatches the given action to the Redux store, to potentially change the state.
    *
@@ -788,6 +1113,9 @@ export class Store<St> {
       Store.log(`Method '${action}.abortDispatch()' has thrown an error: ${error}.`);
       return;
     }
+
+    if (this._isAbortedBeforeDispatch(mockedActionOrAction)) return;
+
     // 3) If the action is mocked to return another action, we dispatch the mock.
     this._processDispatch(mockedActionOrAction, true);
   }
@@ -820,15 +1148,177 @@ export class Store<St> {
     }
   }
 
+  // Returns true if the dispatch should be aborted because of `nonReentrant`, `throttle` or
+  // `freshFor`, in which case the action is marked as aborted.
+  private _isAbortedBeforeDispatch(action: KissAction<St>): boolean {
+    let isAborted = false;
+
+    if (action.nonReentrant && this._isRunningNonReentrant(action)) {
+      Store.log(`Dispatch of ${action} aborted, since it's non-reentrant and an equivalent action is still running.`);
+      isAborted = true;
+    }
+    else isAborted = this._isThrottled(action) || this._isFresh(action);
+
+    if (isAborted) action._changeStatus({isAborted: true});
+    return isAborted;
+  }
+
+  // Returns true if an action equivalent to the given non-reentrant action is still running.
+  // If the action defines `nonReentrantKeyParams()`, only actions of the same type with the
+  // same key params are considered equivalent. Otherwise, any action of the same type is.
+  private _isRunningNonReentrant(action: KissAction<St>): boolean {
+    const type = action.constructor as new (...args: any[]) => KissAction<St>;
+    if (action.nonReentrantKeyParams() === null) return this.isWaiting(type);
+
+    for (const actionInProgress of this._actionsInProgress) {
+      if (this._isEquivalent(action, actionInProgress)) return true;
+    }
+    return false;
+  }
+
+  // Returns true if `other` is of the same type as `action` (or a subtype), and if `action`
+  // defines `nonReentrantKeyParams()`, also has the same key params.
+  private _isEquivalent(action: KissAction<St>, other: KissAction<St>): boolean {
+    const keyParams = action.nonReentrantKeyParams();
+    return (other instanceof (action.constructor as new (...args: any[]) => KissAction<St>))
+      && (keyParams === null || _sameKeyParams(other.nonReentrantKeyParams(), keyParams));
+  }
+
+  // Implements `concurrency`. Returns 'run' if the action should be dispatched now, 'drop' if it
+  // was dropped, or 'queue' if it was queued to be dispatched later.
+  private _applyConcurrency(action: KissAction<St>, mustBeSync: boolean): 'run' | 'drop' | 'queue' {
+    if (action.concurrency === undefined) return 'run';
+
+    const running = Array.from(this._actionsInProgress).filter(other => this._isEquivalent(action, other));
+
+    if (action.concurrency === 'drop') {
+      if (running.length === 0) return 'run';
+      Store.log(`Dispatch of ${action} dropped, since an equivalent action is still running.`);
+      action._changeStatus({isAborted: true});
+      action._resolvePromise();
+      return 'drop';
+    }
+    //
+    else if (action.concurrency === 'latest') {
+      for (const other of running) this.cancel(other);
+      return 'run';
+    }
+    //
+    else {
+      const queued = this._queuedActions.some(other => this._isEquivalent(action, other));
+      if (running.length === 0 && !queued) return 'run';
+
+      if (mustBeSync) throw new StoreException(`You called dispatchSync(${action.constructor.name}), but the action must wait in the queue.`);
+      this._queuedActions.push(action);
+      return 'queue';
+    }
+  }
+
+  // When an action finishes (or is cancelled), dispatches the next equivalent queued action, if any.
+  private _dispatchNextQueued(finishedAction: KissAction<St>) {
+    const index = this._queuedActions.findIndex(queued => this._isEquivalent(queued, finishedAction));
+    if (index === -1) return;
+
+    const next = this._queuedActions[index];
+    for (const actionInProgress of this._actionsInProgress) {
+      if (this._isEquivalent(next, actionInProgress)) return;
+    }
+
+    this._queuedActions.splice(index, 1);
+    this._processDispatch(next, false, true);
+  }
+
+  // Removes the throttle lock, but only if it was created by the given action.
+  private _releaseThrottleLock(action: KissAction<St>) {
+    if (action.ifThrottleIsOn) {
+      const lockKey = action.lockKey();
+      if (this._throttleLocks.get(lockKey)?.action === action) this._throttleLocks.delete(lockKey);
+    }
+  }
+
+  // Returns true if the action is throttled, and a previous action with the same lock key is
+  // still fresh, in which case the dispatch should be aborted.
+  private _isThrottled(action: KissAction<St>): boolean {
+    if (!action.ifThrottleIsOn || action.ignoreFresh) return false;
+
+    const lock = this._throttleLocks.get(action.lockKey());
+
+    if (lock !== undefined && (Date.now() - lock.time < action.throttle!)) {
+      Store.log(`Dispatch of ${action} aborted by throttle.`);
+      return true;
+    }
+    return false;
+  }
+
+  // The throttled action will run, so we lock it (or restart the lock, if it ignores freshness).
+  private _lockThrottle(action: KissAction<St>) {
+    if (action.ifThrottleIsOn) this._throttleLocks.set(action.lockKey(), {action, time: Date.now()});
+  }
+
+  // Returns true if the action has `freshFor`, and a previous action of the same type and key is
+  // still running or fresh, in which case the dispatch should be aborted.
+  private _isFresh(action: KissAction<St>): boolean {
+    if (!action.ifFreshForIsOn || action.force) return false;
+
+    const type = action.constructor as new (...args: any[]) => KissAction<St>;
+    const freshness = this._freshness.get(type)?.get(action.actionKey());
+
+    if (freshness !== undefined && (freshness.expiresAt === null || Date.now() < freshness.expiresAt)) {
+      Store.log(`Dispatch of ${action} aborted, since the previous one is still fresh.`);
+      return true;
+    }
+    return false;
+  }
+
+  // The action with `freshFor` will run, so we mark it as running (replacing any previous one,
+  // if the action is forced).
+  private _startFreshness(action: KissAction<St>) {
+    if (!action.ifFreshForIsOn) return;
+
+    const type = action.constructor as new (...args: any[]) => KissAction<St>;
+    let freshnessByKey = this._freshness.get(type);
+    if (freshnessByKey === undefined) {
+      freshnessByKey = new Map();
+      this._freshness.set(type, freshnessByKey);
+    }
+    freshnessByKey.set(action.actionKey(), {action, expiresAt: null});
+  }
+
+  // When an action with `freshFor` finishes, it's fresh from now on if it succeeded.
+  // If it failed, was cancelled or was aborted, it's not fresh anymore.
+  private _finishFreshness(action: KissAction<St>) {
+    const type = action.constructor as new (...args: any[]) => KissAction<St>;
+    const key = action.actionKey();
+    const freshnessByKey = this._freshness.get(type);
+    const freshness = freshnessByKey?.get(key);
+    if (freshness === undefined || freshness.action !== action) return;
+
+    const status = action.status;
+    if (status.originalError === null && !status.isCancelled && !status.isAborted) {
+      freshness.expiresAt = Date.now() + action.freshFor!;
+    } else {
+      freshnessByKey!.delete(key);
+      if (freshnessByKey!.size === 0) this._freshness.delete(type);
+    }
+  }
+
   // Dispatches the action (or the already mocked action).
   // If `mustBeSync` is true, will throw a `StoreException` if the action is ASYNC.
-  private _processDispatch(action: KissAction<St>, mustBeSync: boolean) {
+  // If `fromQueue` is true, the action is leaving the queue, so `concurrency` was already applied.
+  private _processDispatch(action: KissAction<St>, mustBeSync: boolean, fromQueue: boolean = false) {
 
     if (this._shutDown) {
       Store.log(`Can't dispatch action ${action} because the store is shut down.`);
       return;
     }
 
+    if (!fromQueue && this._applyConcurrency(action, mustBeSync) !== 'run') return;
+
+    // The action starts running now. Queued actions only lock when they leave the queue,
+    // so that nothing is left locked if they never run.
+    this._lockThrottle(action);
+    this._startFreshness(action);
+
     this._dispatchCount++;
     Store.log(`${this._dispatchCount}) ${action}`);
 
@@ -837,6 +1327,8 @@ export class Store<St> {
 
     action._changeStatus({isDispatched: true});
 
+    if (action.ifTimeoutIsOn) this._timeoutDeadlines.set(action, Date.now() + action.timeoutMillis!);
+
     // We inject the store into the store, so that the action can access it as a property.
     action._injectStore(this);
 
@@ -863,12 +1355,12 @@ export class Store<St> {
 
     if (failable) {
       // Dispatch is starting, so we remove the action from the list of failed actions.
-      let wasInTheList = this._failedActions.delete(action.constructor as new (...args: any[]) => KissAction<St>);
+      let wasInTheList = this._removeFailedAction(action.constructor as new (...args: any[]) => KissAction<St>, action.actionKey());
 
       // Then we notify the UI. Note we don't notify if the action was never checked.
       if (wasInTheList) {
         theUIHasAlreadyUpdated = true;
-        this._rebuildFromStoreHooks();
+        this._notifySubscribers();
       }
     }
 
@@ -879,7 +1371,7 @@ export class Store<St> {
     // the action is awaitable (that is to say, we have already called `isWaiting` for this action),
     if (!theUIHasAlreadyUpdated && this._awaitableActions.has(action.constructor as new (...args: any[]) => KissAction<St>)) {
       // Then we notify the UI. Note we don't notify if the action was never checked.
-      this._rebuildFromStoreHooks();
+      this._notifySubscribers();
     }
   }
 
@@ -930,8 +1422,18 @@ export class Store<St> {
 
   private _processWrapsError(error: any, action: KissAction<St>) {
     //
+    // Errors thrown after the action was cancelled (like the `AbortError` thrown by `fetch`)
+    // are ignored.
+    if (action.status.isCancelled) {
+      Store.log(`Action ${action} was cancelled, so its error was ignored: ${error}.`);
+      return;
+    }
+
     action._changeStatus({originalError: error});
 
+    // A throttled action that fails is not fresh, so that it can run again right away.
+    this._releaseThrottleLock(action);
+
     // Observe the state with an error here. We use the current state; no new state was applied.
     // This is before the action's `after()` and `wrapError()` and `globalWrapError`.
     this._stateObserver?.(action, this._state, this._state, error, this._dispatchCount);
@@ -970,7 +1472,7 @@ export class Store<St> {
         action._changeStatus({wrappedError: error});
 
         // Memorizes the action that failed. We'll remove it when it's dispatched again.
-        this._failedActions.set(action.constructor as new (...args: any[]) => KissAction<St>, action);
+        this._addFailedAction(action);
 
         // Memorizes errors of type `UserException` (in the error queue).
         // These errors are usually shown to the user in a modal dialog, and are not logged.
@@ -1019,7 +1521,7 @@ export class Store<St> {
     // Note: If the state was applied, this was already removed and the UI updated.
     const removed = this._actionsInProgress.delete(action);
     if (removed) {
-      this._rebuildFromStoreHooks();
+      this._notifySubscribers();
 
       // Check the wait-conditions after state change. We pass it the trigger-action.
       this._checkAllActionConditions(action);
@@ -1028,8 +1530,15 @@ export class Store<St> {
     // The action is dispatched twice. This is the 2nd: when the action ends (ini false).
     this._actionObserver?.(action, this._dispatchCount, false);
 
+    // The action is not retrying anymore.
+    if (action.ifRetryIsOn) this._clearRetryState(action);
+
+    if (action.ifFreshForIsOn) this._finishFreshness(action);
+
     // This allows us to `let status = await dispatchAndWait(new MyAction())`.
     action._resolvePromise();
+
+    this._dispatchNextQueued(action);
   }
 
   // This method checks and resolves conditions related to actions in progress.
@@ -1075,11 +1584,17 @@ export class Store<St> {
 
     if (action.ifRetryIsOn) action.wrapReduce = this._retryWrapReduce(action);
 
+    let reduce = action.wrapReduce(action.reduce.bind(action));
+    if (action.ifDebounceIsOn) {
+      // Checked before the debounced reducer is created, since creating it starts the debounce.
+      if (mustBeSync) throw new StoreException(`You called dispatchSync(${action.constructor.name}), but the action is debounced, which makes it ASYNC.`);
+      reduce = this._debounceWrapReduce(action, reduce);
+    }
+
     // 3)
     // - Runs the SYNC `reduce` method; OR
     // - Runs the initial sync part of the ASYNC `reduce` method.
-    let reduceResult: ReduxReducer<St> =
-      action.wrapReduce(action.reduce.bind(action))();
+    let reduceResult: ReduxReducer<St> = reduce();
 
     // 4) If the reducer returned null, or if it returned the unaltered state, we simply do nothing.
     if (reduceResult === null || reduceResult === this.state) {
@@ -1112,6 +1627,7 @@ export class Store<St> {
 
   private _retryWrapReduce(action: KissAction<St>): (reduce: () => ReduxReducer<St>) => () => ReduxReducer<St> {
 
+    const store = this;
     let retry = (action.retry as RetryOptions);
 
     if (!retry.on) {
@@ -1129,7 +1645,7 @@ export class Store<St> {
         let _multiplier = retry.multiplier;
         if (_multiplier <= 1) _multiplier = 2;
 
-        retry.currentDelay = (retry.currentDelay == null) //
+        retry.currentDelay = (retry.attempts <= 1) //
           ? retry.initialDelay //
           : retry.currentDelay! * _multiplier;
 
@@ -1138,6 +1654,23 @@ export class Store<St> {
         return retry.currentDelay!;
       }
 
+      /// The delay before the next retry. If the error carries a server-suggested
+      /// `retryAfterMillis`, that's used. Otherwise, it's the `nextDelay` with some jitter.
+      function retryDelay(retry: RetryOptions, error: any): number {
+        let delay = nextDelay(retry);
+
+        if (typeof error?.retryAfterMillis === 'number' && error.retryAfterMillis >= 0)
+          return error.retryAfterMillis;
+
+        if (retry.jitter > 0) {
+          let jitter = Math.min(retry.jitter, 1);
+          delay = delay * (1 - jitter + Math.random() * 2 * jitter);
+          delay = Math.min(Math.round(delay), retry.maxDelay);
+        }
+
+        return delay;
+      }
+
       function _wrapReduceRetry(reduce: () => ReduxReducer<St>): () => ReduxReducer<St> {
 
         async function _wrapReduceRetryAsync(): AsyncReducer<St> {
@@ -1150,12 +1683,45 @@ export class Store<St> {
           }
             //
           catch (error) {
-            (action.retry as RetryOptions).attempts++;
-            let maxRetries = (action.retry as RetryOptions).maxRetries;
+            // Cancelled (or timed out) actions are not retried.
+            if (action.signal.aborted) throw error;
+
+            let retry = action.retry as RetryOptions;
+            retry.attempts++;
+            let maxRetries = retry.maxRetries;
             if ((maxRetries >= 0) && (action.attempts > maxRetries)) throw error;
+            if (retry.shouldRetry && !retry.shouldRetry(error, action.attempts)) throw error;
+
+            let currentDelay = retryDelay(retry, error);
+
+            try {
+              retry.onRetry?.(error, action.attempts, currentDelay);
+            } catch (onRetryError) {
+              Store.log(`The onRetry() of the action ${action} threw an error: ${onRetryError}. This error will be ignored.`);
+            }
+
+            store._setRetryState(action, {
+              attempt: action.attempts,
+              maxRetries: maxRetries,
+              delay: currentDelay,
+              nextRetryAt: Date.now() + currentDelay,
+              error: error,
+            });
 
-            let currentDelay = nextDelay(action.retry as RetryOptions);
             await new Promise(resolve => setTimeout(resolve, currentDelay));
+
+            // Cancelled (or timed out) actions are not retried.
+            if (action.signal.aborted) throw error;
+
+            // The retry starts now. The retry state is cleared when the action finishes.
+            store._setRetryState(action, {
+              attempt: action.attempts,
+              maxRetries: maxRetries,
+              delay: 0,
+              nextRetryAt: Date.now(),
+              error: error,
+            });
+
             return action.wrapReduce(reduce)() as any;
           }
 
@@ -1169,6 +1735,34 @@ export class Store<St> {
     }
   }
 
+  // Returns a reducer that waits for `action.debounce` milliseconds, and then only runs the given
+  // `reduce` if no other action with the same `lockKey()` was dispatched in the meantime.
+  // Otherwise, the reducer is not run, and the action is marked as aborted.
+  private _debounceWrapReduce(action: KissAction<St>, reduce: () => ReduxReducer<St>): () => ReduxReducer<St> {
+
+    const lockKey = action.lockKey();
+    const ticket = ++this._debounceTicket;
+    this._debounceLocks.set(lockKey, ticket);
+
+    return async (): AsyncReducer<St> => {
+      await delayMillis(action.debounce!);
+
+      // Some other action with the same lock key was dispatched after this one,
+      // or the action was cancelled (or timed out) while waiting.
+      if (this._debounceLocks.get(lockKey) !== ticket || action.signal.aborted) {
+        action._changeStatus({isAborted: true});
+        return null;
+      }
+
+      this._debounceLocks.delete(lockKey);
+
+      // Since the debounced reducer is always ASYNC, a SYNC result is turned into a function.
+      let result = reduce();
+      if (result instanceof Promise) return result;
+      else return (result === null) ? null : () => result as St;
+    };
+  }
+
   private _record(
     action: KissAction<St>,
     ini: boolean,
@@ -1193,19 +1787,25 @@ export class Store<St> {
     this._wrapsAsync(action, async () => {
 
       // 2.1) Method `before` is ASYNC, so we wait for it to finish.
-      await beforeResult;
+      await this._withTimeout(action, beforeResult);
 
       action._changeStatus({hasFinishedMethodBefore: true});
 
+      // If the action was cancelled while `before` was running, or if `before` aborted it
+      // (for example, to queue it until the internet connection is back), the reducer doesn't run.
+      if (action.status.isCancelled || action.status.isAborted) return;
+
       // REDUCE
 
       if (action.ifRetryIsOn) action.wrapReduce = this._retryWrapReduce(action);
 
+      let reduce = action.wrapReduce(action.reduce.bind(action));
+      if (action.ifDebounceIsOn) reduce = this._debounceWrapReduce(action, reduce);
+
       // 2.2)
       // - Runs the SYNC `reduce` method; OR
       // - Runs the initial sync part of the ASYNC `reduce` method.
-      let reduceResult: ReduxReducer<St> | AsyncReducerResult<St> =
-        action.wrapReduce(action.reduce.bind(action))();
+      let reduceResult: ReduxReducer<St> | AsyncReducerResult<St> = reduce();
 
       // 2.3) If the reducer returned null, or if it returned the unaltered state, we simply do nothing.
       if (reduceResult === null || reduceResult === this.state) {
@@ -1216,7 +1816,7 @@ export class Store<St> {
         //
       // 2.4) If the reducer is ASYNC, we still process the rest of the reducer to generate the new state.
       else if (reduceResult instanceof Promise) {
-        reduceResult = await reduceResult as AsyncReducerResult<St>;
+        reduceResult = await this._withTimeout(action, reduceResult) as AsyncReducerResult<St>;
         action._changeStatus({hasFinishedMethodReduce: true});
 
         if (reduceResult === null || reduceResult === this.state) {
@@ -1260,7 +1860,7 @@ export class Store<St> {
     this._wrapsAsync(action, async () => {
 
       // 5.1) Method `reduce` is ASYNC, so we wait for it to finish.
-      let functionalReduceResult: AsyncReducerResult<St> = await reduceResult;
+      let functionalReduceResult: AsyncReducerResult<St> = await this._withTimeout(action, reduceResult);
       action._changeStatus({hasFinishedMethodReduce: true});
 
       // 5.2) If the reducer returned null, we simply do nothing.
@@ -1290,12 +1890,47 @@ export class Store<St> {
     }).then();
   }
 
+  // If the action uses `timeoutMillis`, returns a promise that rejects with the action's
+  // `timeoutError()` if the given promise doesn't settle before the action's deadline.
+  // In this case, the action's signal is aborted, and the late result is discarded.
+  private _withTimeout<T>(action: KissAction<St>, promise: Promise<T>): Promise<T> {
+    const deadline = this._timeoutDeadlines.get(action);
+    if (deadline === undefined) return promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        try {
+          reject(action.timeoutError());
+        } catch (error) {
+          reject(error);
+        }
+        action._abort();
+      }, Math.max(deadline - Date.now(), 0));
+
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        });
+    });
+  }
+
   private _isFunction(obj: any): boolean {
     return typeof obj === 'function';
   }
 
   private _registerState(action: KissAction<St>, newState: St) {
 
+    // The result of a cancelled action is discarded.
+    if (action.status.isCancelled) {
+      this._record(action, false, this.state, this.state, null);
+      return;
+    }
+
     if (this._logStateChanges) {
       try {
         let stateChangeDescription = Store.describeStateChange(this.state, newState);
@@ -1309,13 +1944,23 @@ export class Store<St> {
 
     if (newState !== null && newState !== this._state) {
       this._state = newState;
-      this._rebuildFromStateHooks();
 
-      // Observe the state with null error, because the reducer completed normally.
-      this._stateObserver?.(action, prevState, newState, null, this._dispatchCount);
+      this._notifySubscribers();
+
+      // Inside a `batch`, the state-observer is notified only when it ends.
+      if (this._batch !== null) {
+        this._batch.lastAction = action;
+        if (!(action instanceof UpdateStateAction && !action.ifPersists)) this._batch.lastPersistableAction = action;
+      } else {
+
+        // Observe the state with null error, because the reducer completed normally.
+        this._stateObserver?.(action, prevState, newState, null, this._dispatchCount);
+      }
 
       this._record(action, false, prevState, newState, null);
 
+      if (action.undoable) this._addUndoStep(prevState);
+
       // ---
 
       // Remove the wait state for the action in progress.
@@ -1324,7 +1969,7 @@ export class Store<St> {
 
       // Check the wait-conditions after state change. We pass it the trigger-action.
       if (removed) {
-        this._rebuildFromStoreHooks();
+        this._notifySubscribers();
         this._checkAllActionConditions(action);
       }
 
@@ -1339,7 +1984,7 @@ export class Store<St> {
       });
     }
 
-    if (this._processPersistence != null)
+    if (this._processPersistence != null && this._batch === null)
       this._processPersistence.process(
         action,
         newState
@@ -1413,6 +2058,379 @@ export class Store<St> {
     this.userExceptionsQueue.push(error);
   }
 
+  /**
+   * Returns the retry state of the action of the given `type` that is currently retrying,
+   * or `null` if no action of this type is retrying. See `KissAction.retry`.
+   *
+   * This lets you show something like "Retrying in 3s (attempt 2/5)":
+   *
+   * ```ts
+   * let retryState = store.retryState(LoadFeed);
+   * if (retryState) {
+   *   let seconds = Math.ceil((retryState.nextRetryAt - Date.now()) / 1000);
+   *   console.log(`Retrying in ${seconds}s (attempt ${retryState.attempt}/${retryState.maxRetries})`);
+   * }
+   * ```
+   *
+   * While a retry is running, its `delay` is `0`, and its `nextRetryAt` is when it started.
+   *
+   * Note: This method uses the EXACT action type. Subtypes are not considered.
+   * A new `RetryState` object is created each time the action waits to retry, and each time
+   * the retry starts.
+   */
+  retryState<T extends KissAction<St>>(type: { new(...args: any[]): T }): RetryState | null {
+    return this._retryStates.get(type)?.retryState ?? null;
+  }
+
+  /**
+   * For Kiss internal use only.
+   */
+  _setRetryState(action: KissAction<St>, retryState: RetryState) {
+    this._retryStates.set(action.constructor as new (...args: any[]) => KissAction<St>, {action, retryState});
+    this._notifySubscribers();
+  }
+
+  // Removes the retry state of the action type, but only if it was created by the given action.
+  private _clearRetryState(action: KissAction<St>) {
+    const type = action.constructor as new (...args: any[]) => KissAction<St>;
+    if (this._retryStates.get(type)?.action === action) {
+      this._retryStates.delete(type);
+      this._notifySubscribers();
+    }
+  }
+
+  /**
+   * Cancels the given action, if it's still running, or waiting in the queue (see `concurrency`).
+   * Returns true if the action was cancelled, or false if it was not running (it already
+   * finished, or was never dispatched).
+   *
+   * When an action is cancelled:
+   * - Its `signal` is aborted, so that any `fetch` that received the signal is aborted.
+   * - It stops being "waited" for, so `isWaiting` returns false right away.
+   * - Its async reducer result is discarded instead of applied to the state.
+   * - Errors it throws after being cancelled are ignored.
+   * - Its `after` method still runs, and `dispatchAndWait` resolves with `status.isCancelled` true.
+   *
+   * Note: SYNC actions always run to completion, so they can't be cancelled.
+   *
+   * ```ts
+   * let action = new LoadSearchResults('abc');
+   * store.dispatch(action);
+   * store.cancel(action);
+   * ```
+   */
+  cancel(action: KissAction<St>): boolean {
+
+    // An action waiting in the queue (see `concurrency`) is removed from it, and never runs.
+    const queueIndex = this._queuedActions.indexOf(action);
+    if (queueIndex !== -1) {
+      this._queuedActions.splice(queueIndex, 1);
+      action._cancel();
+      this._releaseThrottleLock(action);
+      if (action.ifFreshForIsOn) this._finishFreshness(action);
+      action._resolvePromise();
+      return true;
+    }
+
+    if (!this._actionsInProgress.has(action)) return false;
+
+    action._cancel();
+    this._releaseThrottleLock(action);
+    if (action.ifFreshForIsOn) this._finishFreshness(action);
+
+    // The action is removed from the actions in progress right away,
+    // even if it will still take some time to finish.
+    this._actionsInProgress.delete(action);
+    this._notifySubscribers();
+    this._checkAllActionConditions(action);
+
+    this._dispatchNextQueued(action);
+
+    return true;
+  }
+
+  /**
+   * Cancels all running (or queued) actions of the given `type` (including subtypes), and returns
+   * how many were cancelled. If you also pass a `key`, only actions whose `actionKey()` is equal to the
+   * key are cancelled. See `cancel` for details.
+   *
+   * ```ts
+   * // A new search makes the previous ones obsolete.
+   * store.cancelAll(LoadSearchResults);
+   * store.dispatch(new LoadSearchResults('abc'));
+   * ```
+   */
+  cancelAll<T extends KissAction<St>>(type: { new(...args: any[]): T }, key?: any): number {
+    let toCancel = [...this._queuedActions, ...this._actionsInProgress].filter(
+      action => action instanceof type && (key === undefined || action.actionKey() === key));
+
+    for (const action of toCancel) this.cancel(action);
+    return toCancel.length;
+  }
+
+  /**
+   * Returns true if there is some step that can be undone with `undo()`.
+   * See also the `useCanUndo()` hook.
+   */
+  get canUndo(): boolean {
+    return this._undoStack.length > 0;
+  }
+
+  /**
+   * Returns true if there is some step that can be redone with `redo()`.
+   * See also the `useCanRedo()` hook.
+   */
+  get canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
+  /**
+   * Undoes the last step, restoring the state from before the undoable action (or undo
+   * transaction) changed it. Returns false if there was nothing to undo, or if the state could
+   * not be restored (for example, because the store is shut down), in which case the undo history
+   * doesn't change. See `KissAction.undoable`.
+   *
+   * Note: Changes made by actions that are not undoable, after the undoable step, are also undone.
+   */
+  undo(): boolean {
+    const state = this._undoStack[this._undoStack.length - 1];
+    if (state === undefined) return false;
+
+    const currentState = this._state;
+    if (!this._restoreState(state)) return false;
+
+    this._undoStack.pop();
+    this._redoStack.push(currentState);
+    this._notifySubscribers();
+    return true;
+  }
+
+  /**
+   * Redoes the last step undone with `undo()`. Returns false if there was nothing to redo, or if
+   * the state could not be restored, like in `undo()`.
+   * Note: Once a new undoable action changes the state, the undone steps can't be redone anymore.
+   */
+  redo(): boolean {
+    const state = this._redoStack[this._redoStack.length - 1];
+    if (state === undefined) return false;
+
+    const currentState = this._state;
+    if (!this._restoreState(state)) return false;
+
+    this._redoStack.pop();
+    this._undoStack.push(currentState);
+    this._notifySubscribers();
+    return true;
+  }
+
+  // Dispatches an action that restores the given state. Returns false if the action didn't
+  // complete, for example because the store is shut down, or the action is mocked.
+  private _restoreState(state: St): boolean {
+    const action = new UpdateStateAction<St>(() => state);
+    this.dispatch(action);
+    return action.status.isCompletedOk;
+  }
+
+  /**
+   * Runs the given function, and all undoable actions dispatched while it runs are undone
+   * together, in a single undo step. If the function returns a Promise, the transaction
+   * ends when the Promise finishes. Returns what the function returns.
+   *
+   * ```ts
+   * await store.undoTransaction(async () => {
+   *   store.dispatch(new AddShape(circle));
+   *   await store.dispatchAndWait(new MoveShape(circle, 10, 20));
+   * });
+   *
+   * store.undo(); // Undoes both actions.
+   * ```
+   *
+   * Note: Undoable actions dispatched from anywhere else while an async transaction is running
+   * are also part of the transaction.
+   */
+  undoTransaction<T>(fn: () => T): T {
+    if (this._undoTransactionDepth === 0) this._undoTransactionHasStep = false;
+    this._undoTransactionDepth++;
+
+    const end = () => {
+      this._undoTransactionDepth--;
+    };
+
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      end();
+      throw error;
+    }
+
+    if (result instanceof Promise) return result.finally(end) as T;
+    end();
+    return result;
+  }
+
+  /**
+   * Forgets all steps that could be undone or redone.
+   */
+  clearUndoHistory(): void {
+    this._undoStack = [];
+    this._redoStack = [];
+    this._notifySubscribers();
+  }
+
+  // Keeps the state from before an undoable action changed it, so that it can be undone.
+  private _addUndoStep(prevState: St) {
+    if (this._undoTransactionDepth > 0) {
+      if (this._undoTransactionHasStep) return;
+      this._undoTransactionHasStep = true;
+    }
+
+    this._undoStack.push(prevState);
+    if (this._undoStack.length > this._maxUndoSteps) this._undoStack.shift();
+    this._redoStack = [];
+    this._notifySubscribers();
+  }
+
+  /**
+   * Returns the actions that were aborted because there was no internet connection, and that
+   * will be dispatched again when the connection comes back. See the `checkInternet` option
+   * `ifOffline: 'queue'`.
+   *
+   * ```ts
+   * let count = store.pendingOfflineActions().length;
+   * ```
+   */
+  pendingOfflineActions(): readonly KissAction<St>[] {
+    return this._offlineActions;
+  }
+
+  /**
+   * Removes the actions waiting for the internet connection, so that they are not dispatched
+   * again. If you pass a `type`, only actions of that type (including subtypes) are removed.
+   * Returns how many actions were removed.
+   */
+  clearOfflineActions<T extends KissAction<St>>(type?: { new(...args: any[]): T }): number {
+    const remaining = this._offlineActions.filter(action => type !== undefined && !(action instanceof type));
+    const count = this._offlineActions.length - remaining.length;
+    if (count > 0) this._setOfflineActions(remaining);
+    return count;
+  }
+
+  /**
+   * Dispatches again the actions waiting for the internet connection. This is called
+   * automatically when the `connectivityMonitor` says the connection is back, so you
+   * usually don't need to call it yourself.
+   *
+   * Actions that still find no internet connection are queued again.
+   */
+  replayOfflineActions(): void {
+    if (this._shutDown) return;
+
+    // Actions that are still finishing their previous dispatch stay in the queue.
+    const toReplay = this._offlineActions.filter(action => !this._actionsInProgress.has(action));
+    if (toReplay.length === 0) return;
+
+    this._setOfflineActions(this._offlineActions.filter(action => !toReplay.includes(action)));
+
+    for (const action of toReplay) {
+      action._resetForReplay();
+      this.dispatch(action);
+    }
+  }
+
+  /**
+   * For Kiss internal use only.
+   * Aborts the action, and keeps it to be dispatched again when the internet connection is back.
+   */
+  _addOfflineAction(action: KissAction<St>) {
+    Store.log(`Action ${action} will be dispatched again when the internet connection is back.`);
+    action._changeStatus({isAborted: true});
+    this._setOfflineActions([...this._offlineActions, action]);
+    this._listenToConnectivityMonitor();
+  }
+
+  /**
+   * Returns true if some optimistic update of the given entity is not yet saved in the cloud.
+   * See `OptimisticUpdate.entityKey()` and `OptimisticCommand.entityKey()`.
+   *
+   * ```ts
+   * if (store.isPendingSync('todo-' + todo.id)) { // Show an "unsynced" badge }
+   * ```
+   */
+  isPendingSync(entityKey: any): boolean {
+    return this._pendingSync.has(entityKey);
+  }
+
+  /**
+   * For Kiss internal use only.
+   */
+  _addPendingSync(entityKey: any) {
+    this._pendingSync.set(entityKey, (this._pendingSync.get(entityKey) ?? 0) + 1);
+    this._notifySubscribers();
+  }
+
+  /**
+   * For Kiss internal use only.
+   */
+  _removePendingSync(entityKey: any) {
+    const count = (this._pendingSync.get(entityKey) ?? 0) - 1;
+    if (count > 0) this._pendingSync.set(entityKey, count);
+    else this._pendingSync.delete(entityKey);
+    this._notifySubscribers();
+  }
+
+  /**
+   * For Kiss internal use only.
+   * Returns the commands of the given entity that are not yet saved. See `OptimisticCommand`.
+   */
+  _optimisticCommandsFor(entityKey: any): OptimisticCommandRecord<St>[] {
+    let commands = this._optimisticCommands.get(entityKey);
+    if (commands === undefined) {
+      commands = [];
+      this._optimisticCommands.set(entityKey, commands);
+    }
+    return commands;
+  }
+
+  /**
+   * For Kiss internal use only.
+   */
+  _removeOptimisticCommandsIfEmpty(entityKey: any) {
+    if (this._optimisticCommands.get(entityKey)?.length === 0) this._optimisticCommands.delete(entityKey);
+  }
+
+  private _setOfflineActions(actions: KissAction<St>[]) {
+    this._offlineActions = actions;
+    this._notifySubscribers();
+
+    this._persistor?.saveOfflineActions(actions).catch((error) => {
+      Store.log('Error saving offline actions:' + error + '.');
+    });
+  }
+
+  /**
+   * Makes actions of the given `type` stale, so that the next dispatch runs even if the previous
+   * one is still fresh. See `freshFor`. If you also pass a `key`, only the action whose
+   * `actionKey()` is equal to the key is made stale.
+   *
+   * ```ts
+   * // The profile changed in the server, so it must be loaded again.
+   * store.invalidateFreshness(LoadProfile);
+   * store.dispatch(new LoadProfile());
+   * ```
+   *
+   * Note: This method uses the EXACT action type. Subtypes are not considered.
+   */
+  invalidateFreshness<T extends KissAction<St>>(type: { new(...args: any[]): T }, key?: any): void {
+    if (key === undefined) {
+      this._freshness.delete(type);
+    } else {
+      const freshnessByKey = this._freshness.get(type);
+      freshnessByKey?.delete(key);
+      if (freshnessByKey?.size === 0) this._freshness.delete(type);
+    }
+  }
+
   /**
    * You can use `isWaiting` and pass it an action `type`:
    * - It returns true if an ASYNC action of the specific type is currently being processed.
@@ -1425,13 +2443,20 @@ export class Store<St> {
    * dispatch(MyAction());
    * if (store.isWaiting(MyAction)) { // Show a spinner }   *
    * ```
+   *
+   * If you also pass a `key`, only actions whose `actionKey()` is equal to the key are considered:
+   *
+   * ```ts
+   * dispatch(LikePost(17));
+   * if (store.isWaiting(LikePost, 17)) { // Show a spinner in post 17 }
+   * ```
    */
-  isWaiting<T extends KissAction<St>>(type: { new(...args: any[]): T }): boolean {
+  isWaiting<T extends KissAction<St>>(type: { new(...args: any[]): T }, key?: any): boolean {
 
     this._awaitableActions.add(type);
 
     for (const action of this._actionsInProgress) {
-      if (action instanceof type) {
+      if (action instanceof type && (key === undefined || action.actionKey() === key)) {
         return true;
       }
     }
@@ -1441,20 +2466,32 @@ export class Store<St> {
   /**
    * Returns true if the given action `type` failed with an `UserException`.
    * Note: This method uses the EXACT action type. Subtypes are not considered.
+   *
+   * If you also pass a `key`, only actions whose `actionKey()` is equal to the key are considered.
    */
-  isFailed<T extends KissAction<any>>(type: { new(...args: any[]): T }): boolean {
-    return this.exceptionFor(type) !== null;
+  isFailed<T extends KissAction<any>>(type: { new(...args: any[]): T }, key?: any): boolean {
+    return this.exceptionFor(type, key) !== null;
   }
 
   /**
    * Returns the `UserException` of the `type` that failed.
    * Note: This method uses the EXACT type in `type`. Subtypes are not considered.
+   *
+   * If you also pass a `key`, only actions whose `actionKey()` is equal to the key are considered.
+   * Otherwise, returns the exception of the action of this type that failed most recently.
    */
   exceptionFor<T extends KissAction<St>>(type: {
     new(...args: any[]): T
-  }): (UserException | null) {
+  }, key?: any): (UserException | null) {
     this._actionsWeCanCheckFailed.add(type);
-    let action = this._failedActions.get(type);
+
+    let actionsByKey = this._failedActions.get(type);
+    if (actionsByKey === undefined) return null;
+
+    let action: KissAction<St> | undefined;
+    if (key !== undefined) action = actionsByKey.get(key);
+    else for (const failedAction of actionsByKey.values()) action = failedAction;
+
     let error = action?.status.wrappedError;
     return (error instanceof UserException) ? error : null;
   }
@@ -1471,10 +2508,37 @@ export class Store<St> {
    * ```ts
    * store.clearExceptionFor(MyAction);
    * ```
+   *
+   * If you also pass a `key`, only the action whose `actionKey()` is equal to the key is cleared.
    */
-  clearExceptionFor<T extends KissAction<St>>(type: { new(...args: any[]): T }): void {
-    let result = this._failedActions.delete(type);
-    if (result) this._rebuildFromStoreHooks();
+  clearExceptionFor<T extends KissAction<St>>(type: { new(...args: any[]): T }, key?: any): void {
+    let result = (key === undefined)
+      ? this._failedActions.delete(type)
+      : this._removeFailedAction(type, key);
+    if (result) this._notifySubscribers();
+  }
+
+  // Adds the failed action to `_failedActions`, under its type and `actionKey()`.
+  // The action is moved to the end of the map, so that the last entry is the most recent failure.
+  private _addFailedAction(action: KissAction<St>) {
+    const type = action.constructor as new (...args: any[]) => KissAction<St>;
+    const key = action.actionKey();
+    let actionsByKey = this._failedActions.get(type);
+    if (actionsByKey === undefined) {
+      actionsByKey = new Map();
+      this._failedActions.set(type, actionsByKey);
+    }
+    actionsByKey.delete(key);
+    actionsByKey.set(key, action);
+  }
+
+  // Removes the failed action with the given type and key from `_failedActions`.
+  // Returns true if it was there.
+  private _removeFailedAction(type: new (...args: any[]) => KissAction<St>, key: any): boolean {
+    const actionsByKey = this._failedActions.get(type);
+    if (actionsByKey === undefined || !actionsByKey.delete(key)) return false;
+    if (actionsByKey.size === 0) this._failedActions.delete(type);
+    return true;
   }
 
   /**
@@ -1663,11 +2727,20 @@ export class Store<St> {
     // Otherwise, create a Promise that resolves when the condition is met.
     else {
       return new Promise((resolve, reject) => {
-        this._waitConditions.push({check: condition, resolve});
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        // The timer is cleared when the condition is met, so that it doesn't keep the process alive.
+        this._waitConditions.push({
+          check: condition,
+          resolve: (triggerAction) => {
+            clearTimeout(timer);
+            resolve(triggerAction);
+          },
+        });
 
         timeoutMillis ??= TimeoutException.defaultTimeoutMillis;
         if (timeoutMillis > 0) {
-          setTimeout(() => {
+          timer = setTimeout(() => {
             reject(new TimeoutException(`Timeout exceeded: ${timeoutMillis} milliseconds.`));
           }, timeoutMillis);
         }
@@ -1753,17 +2826,21 @@ export class Store<St> {
     //
     else {
       return new Promise((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        // The timer is cleared when the condition is met, so that it doesn't keep the process alive.
         this._waitActionConditions.push(
           {
             check: (actions: Set<KissAction<St>>, triggerAction: KissAction<St> | null) => condition(actions, triggerAction),
-            resolve: (actions: Set<KissAction<St>>, triggerAction: KissAction<St> | null) =>
-              resolve({actions, triggerAction: triggerAction}
-              )
+            resolve: (actions: Set<KissAction<St>>, triggerAction: KissAction<St> | null) => {
+              clearTimeout(timer);
+              resolve({actions, triggerAction: triggerAction});
+            }
           });
 
         timeoutMillis ??= TimeoutException.defaultTimeoutMillis;
         if (timeoutMillis > 0) {
-          setTimeout(() => {
+          timer = setTimeout(() => {
             reject(new TimeoutException(`Timeout exceeded: ${timeoutMillis} milliseconds.`));
           }, timeoutMillis);
         }
@@ -2106,6 +3183,63 @@ export class Store<St> {
   dispatchWhen(action: KissAction<St>, condition: (state: St) => boolean): void {
     this.waitCondition(condition).then(() => this.dispatch(action));
   }
+
+  /**
+   * Dispatches the action created by `createAction` right away, and then again every
+   * `intervalMillis` milliseconds, until you call `stop()` on the returned handle:
+   *
+   * ```ts
+   * const polling = store.startPolling(() => new LoadPrices(), 5000);
+   * ...
+   * polling.stop();
+   * ```
+   *
+   * Notes:
+   * - If the previous action is still in progress, that tick is skipped, so that slow actions
+   *   don't pile up.
+   * - While the store is shut down (see `setShutDown`), ticks are skipped. Polling resumes when
+   *   the store is not shut down anymore.
+   * - If `createAction` throws, or the action throws an error that is not handled by the
+   *   `errorObserver`, the error is logged with `Store.log()`, and polling goes on.
+   * - Inside components, use the `usePolling` hook, which stops polling when the component unmounts.
+   */
+  startPolling(createAction: () => KissAction<St>, intervalMillis: number): PollingHandle {
+    let lastAction: KissAction<St> | null = null;
+
+    const tick = () => {
+      if (this._shutDown) return;
+      if (lastAction !== null && this._actionsInProgress.has(lastAction)) return;
+      try {
+        lastAction = createAction();
+        this.dispatch(lastAction);
+      } catch (error) {
+        Store.log(`Polling has thrown an error, and will try again on the next tick: ${error}.`);
+      }
+    };
+
+    const timer = setInterval(tick, intervalMillis);
+    tick();
+
+    let isPolling = true;
+    return {
+      get isPolling() {
+        return isPolling;
+      },
+      stop() {
+        isPolling = false;
+        clearInterval(timer);
+      },
+    };
+  }
+}
+
+/**
+ * Returned by `store.startPolling()`. Call `stop()` to stop polling.
+ */
+export interface PollingHandle {
+  readonly isPolling: boolean;
+
+  stop(): void;
 }
 
 interface StoreProviderProps<St> {
@@ -2155,3 +3289,12 @@ class Mocks<St> {
 export type ShowUserException = (exception: UserException, count: number, next: () => void) => void;
 
 
+
+// Compares the `nonReentrantKeyParams()` of two actions, one param at a time.
+function _sameKeyParams(params1: any[] | null, params2: any[]): boolean {
+  if (params1 === null || params1.length !== params2.length) return false;
+  for (let i = 0; i < params1.length; i++) {
+    if (params1[i] !== params2[i]) return false;
+  }
+  return true;
+}
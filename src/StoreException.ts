@@ -1,3 +1,5 @@
+import type { KissAction } from './KissAction';
+
 /**
  All exceptions thrown by Kiss are of type StoreException.
  */
@@ -36,6 +38,28 @@ export class TimeoutException extends Error {
   }
 }
 
+/**
+ * Thrown by `store.dispatchAtomically` when some action of the group fails.
+ * The state was already restored to what it was before the group started.
+ */
+export class AtomicDispatchException extends StoreException {
+
+  /**
+   * @param actions All the actions of the group, in order.
+   * @param errors The errors thrown by the actions that failed.
+   * @param isRolledBack True if the state was restored to what it was before the group started.
+   */
+  constructor(
+    readonly actions: KissAction<any>[],
+    readonly errors: any[],
+    readonly isRolledBack: boolean = true,
+  ) {
+    super(`Atomic dispatch failed and ${isRolledBack ? 'was' : 'could NOT be'} rolled back: ${errors.map(String).join(', ')}`);
+
+    this.name = 'AtomicDispatchException';
+  }
+}
+
 export class ExceptionUtils {
 
   /**
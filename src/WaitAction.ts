@@ -0,0 +1,153 @@
+import { KissAction, ReduxReducer } from './KissAction';
+import { Wait, WaitOperation } from './Wait';
+import { delayMillis } from './utils';
+
+/**
+ * [WaitAction] and [Wait] work together to help you create boolean flags that
+ * indicate some process is currently running. For this to work your store state
+ * must have a `Wait` field named `wait`, and the state must have a `copy`
+ * method that copies this field as a named parameter. For example:
+ *
+ * ```ts
+ * class State {
+ *   constructor(readonly wait: Wait = new Wait()) {}
+ *   copy({wait}: {wait?: Wait}): State { return new State(wait ?? this.wait); }
+ * }
+ * ```
+ *
+ * This is useful when the process spans several actions, so that `isWaiting(MyAction)`
+ * can't express it. For example:
+ *
+ * ```ts
+ * dispatch(WaitAction.add('checkout'));
+ * await dispatchAndWait(new ValidateCart());
+ * await dispatchAndWait(new ProcessPayment());
+ * dispatch(WaitAction.remove('checkout'));
+ *
+ * // Then, in some component:
+ * const isWaiting = useIsWaitingFor('checkout');
+ * ```
+ */
+export class WaitAction<St> extends KissAction<St> {
+
+  reduce(): ReduxReducer<St> {
+    if (this.delayMillis !== undefined && this.delayMillis > 0) {
+      return delayMillis(this.delayMillis).then(() => (state: St) => this._process(state));
+    }
+    return this._process(this.state);
+  }
+
+  private _process(state: St): St {
+    let wait: Wait = (state as any).wait ?? new Wait();
+    return (state as any).copy(
+      {wait: wait.process(this.operation, this.flag, this.ref)}
+    );
+  }
+
+  readonly operation: WaitOperation;
+  readonly flag: any;
+  readonly ref: any;
+  readonly delayMillis: number | undefined;
+
+  private constructor({operation, flag, ref, delayMillis}: {
+    operation: WaitOperation,
+    flag: any,
+    ref: any,
+    delayMillis: number | undefined,
+  }) {
+    super();
+    this.operation = operation;
+    this.flag = flag;
+    this.ref = ref;
+    this.delayMillis = delayMillis;
+  }
+
+  /**
+   * Adds a [flag] that indicates some process is currently running.
+   * Optionally, you can also have a flag-reference called [ref].
+   *
+   * Note: [flag] and [ref] must be immutable objects.
+   *
+   * ```ts
+   * // Add a wait state, using this as the flag.
+   * dispatch(WaitAction.add(this));
+   *
+   * // Add a wait state, using this as the flag, and 123 as a reference.
+   * dispatch(WaitAction.add(this, 123));
+   * ```
+   * Note: When the process finishes running, you will have to remove
+   * the [flag] by using the [remove] or [clear] methods.
+   *
+   * If you pass a [delayMillis], the flag will be added only after that
+   * duration has passed, after the [add] method is called.
+   */
+  static add<St>(flag: any, ref?: any, delayMillis?: number): WaitAction<St> {
+    return new WaitAction<St>({
+      operation: WaitOperation.add,
+      flag: flag,
+      ref: ref,
+      delayMillis: delayMillis
+    });
+  }
+
+  /**
+   * Removes a [flag] previously added with the [add] method.
+   * Removing the flag indicating some process finished running.
+   *
+   * If you added the flag with a reference [ref], you must also pass the
+   * same reference here to remove it. Alternatively, if you want to
+   * remove all references to that flag, use the [clear] method instead.
+   *
+   * ```ts
+   * // Add and remove a wait state, using this as the flag.
+   * dispatch(WaitAction.add(this));
+   * dispatch(WaitAction.remove(this));
+   *
+   * // Adds and remove a wait state, using this as the flag, and 123 as a reference.
+   * dispatch(WaitAction.add(this, 123));
+   * dispatch(WaitAction.remove(this, 123));
+   * ```
+   *
+   * If you pass a [delayMillis], the flag will be removed only after that
+   * duration has passed, after the [remove] method is called. Example:
+   *
+   * ```ts
+   * // Add a wait state that will be automatically removed after 3 seconds.
+   * dispatch(WaitAction.add(this));
+   * dispatch(WaitAction.remove(this, undefined, 3000));
+   * ```
+   */
+  static remove<St>(flag: any, ref?: any, delayMillis?: number): WaitAction<St> {
+    return new WaitAction<St>({
+      operation: WaitOperation.remove,
+      flag: flag,
+      ref: ref,
+      delayMillis: delayMillis
+    });
+  }
+
+  /**
+   * Clears (removes) the [flag], with all its references.
+   * Removing the flag indicating some process finished running.
+   *
+   * ```ts
+   * dispatch(WaitAction.add(this, 123));
+   * dispatch(WaitAction.add(this, "xyz"));
+   * dispatch(WaitAction.clear(this));
+   * ```
+   */
+  static clear<St>(flag: any, delayMillis?: number): WaitAction<St> {
+    return new WaitAction<St>({
+      operation: WaitOperation.clear,
+      flag: flag,
+      ref: undefined,
+      delayMillis: delayMillis
+    });
+  }
+
+  toString(): string {
+    return `WaitAction.${this.operation}` +
+      `(flag: ${String(this.flag)}, ` +
+      `ref: ${String(this.ref)})`;
+  }
+}
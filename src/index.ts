@@ -1,22 +1,34 @@
 import { PersistAction, PersistException, Persistor, PersistorDummy, PersistorPrinterDecorator, } from './Persistor';
 import { ClassPersistor } from './ClassPersistor';
 import { ProcessPersistence } from './ProcessPersistence';
+import { ConnectivityMonitor, ConnectivityMonitorBrowser, ConnectivityMonitorFake } from './ConnectivityMonitor';
 import {
   ActionStatus,
   AsyncReducer,
   AsyncReducerResult,
+  Concurrency,
+  OptimisticCommand,
+  OptimisticPart,
   OptimisticUpdate,
   KissAction,
   UserExceptionAction,
   ReduxReducer,
   Retry,
   RetryOptions,
+  RetryState,
   SyncReducer,
   UpdateStateAction,
 } from './KissAction';
-import { Store, createStore, ShowUserException, StoreProvider } from './Store';
+import { Store, createStore, PollingHandle, ShowUserException, StoreProvider } from './Store';
+import { createSelector, deepEqual, EqualityFn, MemoizedSelector, Selector, shallowEqual } from './Selectors';
 import {
+  createHooks,
+  createStoreContext,
+  StoreContextHooks,
+  StoreHooks,
   useAllState,
+  useCanRedo,
+  useCanUndo,
   useClearExceptionFor,
   useDispatch,
   useDispatchAll,
@@ -26,27 +38,40 @@ import {
   useDispatchSync,
   useExceptionFor,
   useIsFailed,
+  useIsOnline,
+  useIsPendingSync,
   useIsWaiting,
+  useIsWaitingFor,
+  usePendingOfflineActions,
+  usePolling,
+  useRetryState,
   useSelect,
   useSelector,
   useStore,
 } from './Hooks';
-import { StoreException } from './StoreException';
+import { AtomicDispatchException, StoreException, TimeoutException } from './StoreException';
 import { UserException } from './UserException';
+import { Wait, WaitOperation } from './Wait';
+import { WaitAction } from './WaitAction';
 
 export {
   Persistor, PersistorPrinterDecorator, PersistorDummy, PersistException, PersistAction, UpdateStateAction,
   ClassPersistor,
   ProcessPersistence,
+  ConnectivityMonitor, ConnectivityMonitorBrowser, ConnectivityMonitorFake,
   KissAction,
   UserExceptionAction,
   ActionStatus, ReduxReducer, SyncReducer, AsyncReducer, AsyncReducerResult,
   Store, createStore, useStore, useAllState, useSelect, useSelector, StoreProvider, ShowUserException,
-  useIsWaiting, useIsFailed, useExceptionFor, useClearExceptionFor,
+  createSelector, Selector, MemoizedSelector, EqualityFn, shallowEqual, deepEqual,
+  useIsWaiting, useIsFailed, useExceptionFor, useClearExceptionFor, useIsWaitingFor, useRetryState,
+  useIsOnline, usePendingOfflineActions, useIsPendingSync, useCanUndo, useCanRedo, usePolling, PollingHandle,
   useDispatch, useDispatchAll, useDispatchAndWait, useDispatchAndWaitAll, useDispatchSync, useDispatcher,
-  StoreException,
+  createHooks, createStoreContext, StoreHooks, StoreContextHooks,
+  StoreException, TimeoutException, AtomicDispatchException,
   UserException,
-  OptimisticUpdate, Retry, RetryOptions,
+  OptimisticUpdate, OptimisticCommand, OptimisticPart, Retry, RetryOptions, RetryState, Concurrency,
+  Wait, WaitOperation, WaitAction,
 };
 
 